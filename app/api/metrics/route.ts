@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCounters, getMetricsUptimeSeconds } from '@/lib/metrics';
+import { rejectUnauthorizedAdmin } from '@/lib/admin-auth';
+
+/**
+ * METRICS Endpoint
+ *
+ * Returns the in-process counters of this server instance (lib/metrics.ts),
+ * e.g. rate_limited_events by tenant, event and bucket scope, and bot_events
+ * by tenant, event, rule and signals (lib/traffic-classification.ts).
+ *
+ * - Requires Authorization: Bearer <QUEUE_ADMIN_TOKEN>
+ */
+
+export async function GET(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const rejection = rejectUnauthorizedAdmin(request, 'METRICS');
+    if (rejection) return rejection;
+
+    return NextResponse.json({
+      message: 'Metrics retrieved',
+      uptime_seconds: getMetricsUptimeSeconds(),
+      counters: getCounters(),
+      success: true
+    }, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [METRICS_ERROR] 💥 Critical error reading metrics:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error reading metrics',
+        error: errorMessage,
+        success: false
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSigningPolicy, issueSigningToken } from '@/lib/request-signing';
+import { verifyShopifyAppProxyRequest } from '@/lib/shopify-webhooks';
+import { getTenantByShopDomain, resolveTenant } from '@/lib/tenants';
+
+/**
+ * SIGNING TOKEN Endpoint (Shopify app proxy)
+ *
+ * Issues the short-lived token the storefront signs its /api/track/* requests
+ * with (lib/request-signing.ts). Meant to be the target of a Shopify app proxy,
+ * e.g. https://<store>/apps/capi/signing-token -> /api/proxy/signing-token,
+ * so the call is same-origin for the theme and carries Shopify's signature.
+ *
+ * - Verifies the app proxy `signature` parameter (SHOPIFY_APP_PROXY_SECRET)
+ * - The tenant is matched by the `shop` parameter, then by the usual rules
+ * - Optional ?session=<id> ties the token to the visitor's session
+ *   (8-128 letters, digits, "-" or "_"); a random session is issued otherwise
+ *
+ * Response: { "token": "...", "key": "...", "session_id": "...", "expires_at": 1700000000 }
+ */
+
+export async function GET(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const tenant = getTenantByShopDomain(searchParams.get('shop')) || resolveTenant(request);
+    const policy = getRequestSigningPolicy(tenant);
+
+    if (!tenant || !policy.secret || !policy.appProxySecret) {
+      console.error(`[${timestamp}] [SIGNING_TOKEN] ❌ Request signing or app proxy secret is not set for tenant ${tenant?.id || 'N/A'}. Refusing to issue tokens.`);
+      return NextResponse.json({
+        message: 'Request signing is not configured on server',
+        success: false
+      }, { status: 500 });
+    }
+
+    const isValidSignature = await verifyShopifyAppProxyRequest(searchParams, policy.appProxySecret);
+    if (!isValidSignature) {
+      console.warn(`[${timestamp}] [SIGNING_TOKEN] 🔒 Invalid app proxy signature (shop: ${searchParams.get('shop') || 'N/A'}). Request rejected.`);
+      return NextResponse.json({
+        message: 'Invalid app proxy signature',
+        success: false
+      }, { status: 401 });
+    }
+
+    const signingToken = issueSigningToken(policy.secret, searchParams.get('session'));
+    console.log(`[${timestamp}] [SIGNING_TOKEN] 🔑 Issued signing token for session ${signingToken.session_id} (tenant: ${tenant.id}), expires at ${signingToken.expires_at}`);
+
+    return NextResponse.json(signingToken, {
+      status: 200,
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [SIGNING_TOKEN_ERROR] 💥 Critical error issuing signing token:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error issuing signing token',
+        error: errorMessage,
+        success: false
+    }, { status: 500 });
+  }
+}
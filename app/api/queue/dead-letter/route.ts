@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEventQueueStats, listDeadLetters, replayDeadLetters } from '@/lib/event-queue';
+import { rejectUnauthorizedAdmin } from '@/lib/admin-auth';
+
+/**
+ * EVENT QUEUE Dead-Letter Endpoint
+ *
+ * GET  - Lists dead-lettered events (most recent first) with the reason, the
+ *        last Graph API error and the stored payload. Optional ?limit=N (default 100).
+ * POST - Replays dead letters: { "ids": ["<queue id>", ...] } or {} for all of them.
+ *        Replayed events go back to the queue with a fresh attempt counter and
+ *        keep their event_id, so Facebook still deduplicates them.
+ *
+ * Both require Authorization: Bearer <QUEUE_ADMIN_TOKEN>.
+ */
+
+export async function GET(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const rejection = rejectUnauthorizedAdmin(request, 'EVENT_QUEUE_DEAD_LETTER');
+    if (rejection) return rejection;
+
+    const limitParam = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? limitParam : 100;
+    const [deadLetters, stats] = await Promise.all([listDeadLetters(limit), getEventQueueStats()]);
+    console.log(`[${timestamp}] [EVENT_QUEUE_DEAD_LETTER] 🔎 Listing ${deadLetters.length} dead-lettered event(s)`);
+
+    return NextResponse.json({
+      message: 'Dead-lettered events',
+      stats,
+      dead_letters: deadLetters.map(deadLetter => ({
+        id: deadLetter.id,
+        tenant_id: deadLetter.tenantId,
+        destination: deadLetter.destination,
+        event_name: deadLetter.payload.event_name,
+        event_id: deadLetter.payload.event_id,
+        event_time: deadLetter.payload.event_time,
+        attempts: deadLetter.attempts,
+        reason: deadLetter.reason,
+        error_class: deadLetter.errorClass,
+        last_status: deadLetter.lastStatus,
+        last_error: deadLetter.lastError,
+        enqueued_at: new Date(deadLetter.enqueuedAt).toISOString(),
+        dead_lettered_at: new Date(deadLetter.deadLetteredAt).toISOString(),
+        payload: deadLetter.payload
+      })),
+      success: true
+    }, { status: 200 });
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [EVENT_QUEUE_DEAD_LETTER_ERROR] 💥 Critical error listing dead letters:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error listing dead-lettered events',
+        error: errorMessage,
+        success: false
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const rejection = rejectUnauthorizedAdmin(request, 'EVENT_QUEUE_DEAD_LETTER');
+    if (rejection) return rejection;
+
+    const body = await request.json().catch(() => ({}));
+    const ids: unknown = body?.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || !id))) {
+      return NextResponse.json({
+        message: 'ids must be an array of dead-letter queue IDs',
+        success: false
+      }, { status: 400 });
+    }
+
+    const replayed = await replayDeadLetters(ids as string[] | undefined);
+    console.log(`[${timestamp}] [EVENT_QUEUE_DEAD_LETTER] ♻️ Replayed ${replayed.length} dead-lettered event(s)`);
+
+    return NextResponse.json({
+      message: `${replayed.length} dead-lettered event(s) moved back to the queue`,
+      replayed: replayed.map(event => ({
+        id: event.id,
+        event_name: event.payload.event_name,
+        event_id: event.payload.event_id
+      })),
+      success: true
+    }, { status: 200 });
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [EVENT_QUEUE_DEAD_LETTER_ERROR] 💥 Critical error replaying dead letters:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error replaying dead-lettered events',
+        error: errorMessage,
+        success: false
+    }, { status: 500 });
+  }
+}
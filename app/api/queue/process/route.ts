@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processQueuedServerEvents } from '@/lib/fbevents';
+import { getEventQueueStats } from '@/lib/event-queue';
+import { rejectUnauthorizedAdmin } from '@/lib/admin-auth';
+
+/**
+ * EVENT QUEUE Worker Endpoint
+ *
+ * Runs one pass of the outbound event queue worker: delivers due events,
+ * reschedules transient failures with backoff and dead-letters the rest.
+ * Meant for cron schedulers on serverless deployments (EVENT_QUEUE_WORKER=off);
+ * long-running servers also retry in-process.
+ *
+ * - Requires Authorization: Bearer <QUEUE_ADMIN_TOKEN>
+ * - Optional ?limit=N caps the number of events delivered in this run
+ */
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const rejection = rejectUnauthorizedAdmin(request, 'EVENT_QUEUE_PROCESS');
+    if (rejection) return rejection;
+
+    const limitParam = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? limitParam : undefined;
+
+    console.log(`[${timestamp}] [EVENT_QUEUE_PROCESS] 🏃 Running event queue worker${limit ? ` (limit: ${limit})` : ''}`);
+    const result = await processQueuedServerEvents(limit);
+    const stats = await getEventQueueStats();
+    console.log(`[${timestamp}] [EVENT_QUEUE_PROCESS] ✅ Worker run finished:`, { ...result, ...stats });
+
+    return NextResponse.json({
+      message: 'Event queue processed',
+      result,
+      stats,
+      success: true
+    }, { status: 200 });
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [EVENT_QUEUE_PROCESS_ERROR] 💥 Critical error processing event queue:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing event queue',
+        error: errorMessage,
+        success: false
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,281 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendServerEventBatch } from '@/lib/fbevents';
+import type { CustomData, ServerEventInput, UserData } from '@/lib/fbevents';
+import { recordRequestConsent } from '@/lib/consent';
+import {
+  BatchEventSchema,
+  generateEventId,
+  validateEcommerceData,
+  validateEventData,
+  validateSearchData,
+  type BatchEventApiResult,
+  type BatchEventType,
+  type ValidationIssue,
+} from '@/lib/ecommerce-types';
+import { getCorsHeaders, handleCorsPreflight, rejectDisallowedOrigin } from '@/lib/cors';
+import { checkOrderSignature, rejectUnsignedRequest } from '@/lib/request-signing';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { mergeFacebookCookies } from '@/lib/tracking-route';
+
+const BATCH_MAX_EVENTS = Number(process.env.BATCH_MAX_EVENTS) || 1000;
+
+/**
+ * E-COMMERCE Batch Event Endpoint
+ *
+ * Accepts many events of different types in a single request, e.g. a
+ * storefront that buffers events while offline or flushes on page hide:
+ *
+ * { "events": [{ "type": "AddToCart", "eventId": "...", "userData": {...}, "customData": {...} }, ...] }
+ *
+ * - Each event is validated on its own with the custom_data schema of its type
+ *   (EVENT_SCHEMAS, shared with the single-event routes); invalid events are
+ *   reported and skipped
+ * - Valid events are sent together via sendServerEventBatch, which needs one
+ *   Graph API call per 1,000 events
+ * - _fbc/_fbp cookies are merged into every event exactly like the single-event routes
+ * - Every valid event takes a token from the rate limit buckets of its type
+ *   (lib/rate-limit.ts); over-limit events are reported with retry_after
+ * - The response has one entry per input event, in the same order
+ *
+ * Status: 200 all events sent, 207 partial success, 400 no valid event,
+ * 429 every valid event over its rate limit, 500 all sends failed.
+ */
+
+function validateBatchEvent(event: unknown): {
+  isValid: boolean;
+  errors: ValidationIssue[];
+  type?: BatchEventType;
+  eventId?: string;
+  orderSignature?: string;
+  sanitizedEvent?: ServerEventInput;
+} {
+  const envelope = validateEcommerceData(BatchEventSchema, event);
+  if (!envelope.isValid) {
+    const raw = (event && typeof event === 'object' ? event : {}) as { eventId?: unknown };
+    return {
+      isValid: false,
+      errors: envelope.errors,
+      ...(typeof raw.eventId === 'string' && { eventId: raw.eventId }),
+    };
+  }
+
+  const batchEvent = envelope.sanitizedData!;
+  const eventId = batchEvent.eventId || generateEventId();
+  // Search is normalised exactly like /api/track/search
+  const customDataValidation = batchEvent.type === 'Search'
+    ? validateSearchData(batchEvent.customData ?? {})
+    : validateEventData(batchEvent.type, batchEvent.customData ?? {});
+  if (!customDataValidation.isValid) {
+    return {
+      isValid: false,
+      errors: customDataValidation.errors.map(issue => ({
+        ...issue,
+        path: issue.path ? `customData.${issue.path}` : 'customData',
+      })),
+      type: batchEvent.type,
+      eventId,
+    };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    type: batchEvent.type,
+    eventId,
+    orderSignature: batchEvent.orderSignature,
+    sanitizedEvent: {
+      eventName: batchEvent.type,
+      eventId,
+      userData: (batchEvent.userData || {}) as UserData,
+      customData: customDataValidation.sanitizedData as CustomData,
+      eventSourceUrl: batchEvent.eventSourceUrl,
+      urlParameters: batchEvent.urlParameters,
+      eventTime: batchEvent.eventTime,
+    },
+  };
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight(request, 'ECOMMERCE_BATCH');
+}
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+  const batchId = generateEventId();
+  const corsHeaders = getCorsHeaders(request);
+  const originRejection = rejectDisallowedOrigin(request, 'ECOMMERCE_BATCH');
+  if (originRejection) return originRejection;
+  const signatureRejection = await rejectUnsignedRequest(request, 'ECOMMERCE_BATCH');
+  if (signatureRejection) return signatureRejection;
+
+  try {
+    console.log(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] 📦 Received batch of events from e-commerce client`);
+    const body = await request.json();
+    recordRequestConsent(request, body?.consent);
+    const events: unknown = body?.events;
+
+    if (!Array.isArray(events) || events.length === 0) {
+      console.warn(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] ❌ Batch has no events array`);
+      return NextResponse.json({
+        message: 'Invalid batch: events must be a non-empty array',
+        success: false
+      }, { status: 400, headers: corsHeaders });
+    }
+
+    if (events.length > BATCH_MAX_EVENTS) {
+      console.warn(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] ❌ Batch of ${events.length} events exceeds limit of ${BATCH_MAX_EVENTS}`);
+      return NextResponse.json({
+        message: `Invalid batch: at most ${BATCH_MAX_EVENTS} events are accepted per request`,
+        success: false
+      }, { status: 413, headers: corsHeaders });
+    }
+
+    const validations = events.map(validateBatchEvent);
+
+    // Purchase events must carry a valid orderSignature when the tenant has an order secret
+    const orderChecks = await Promise.all(validations.map(validation =>
+      validation.isValid && validation.type === 'Purchase'
+        ? checkOrderSignature(request, validation.sanitizedEvent!.customData, validation.orderSignature)
+        : null
+    ));
+
+    const results: BatchEventApiResult[] = new Array(events.length);
+    const validEvents: ServerEventInput[] = [];
+    const validIndexes: number[] = [];
+
+    validations.forEach((validation, index) => {
+      if (!validation.isValid) {
+        console.warn(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] ❌ Event #${index} (${validation.type || 'unknown type'}) failed validation:`, validation.errors);
+        results[index] = {
+          index,
+          type: validation.type,
+          event_id: validation.eventId,
+          success: false,
+          errors: validation.errors,
+        };
+        return;
+      }
+
+      const orderCheck = orderChecks[index];
+      if (orderCheck && !orderCheck.valid) {
+        console.warn(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] 🔒 Event #${index} (Purchase) rejected: ${orderCheck.reason}`);
+        results[index] = {
+          index,
+          type: validation.type,
+          event_id: validation.eventId,
+          success: false,
+          errors: [{ path: 'orderSignature', code: 'invalid_signature', message: orderCheck.reason || 'Invalid order signature' }],
+        };
+        return;
+      }
+
+      // Same _fbc/_fbp priority as the single-event routes (server cookies win)
+      const sanitizedEvent = validation.sanitizedEvent!;
+      sanitizedEvent.userData = mergeFacebookCookies(request, sanitizedEvent.userData) as UserData;
+
+      validEvents.push(sanitizedEvent);
+      validIndexes.push(index);
+    });
+
+    // Over-limit events are reported like invalid ones and never reach Meta
+    const deliverableEvents: ServerEventInput[] = [];
+    const deliverableIndexes: number[] = [];
+    let rateLimited = 0;
+    let retryAfterSeconds = 0;
+    for (let position = 0; position < validEvents.length; position++) {
+      const event = validEvents[position];
+      const index = validIndexes[position];
+      const decision = await checkRateLimit(request, event.eventName, event.userData?.fbp);
+      if (decision.allowed) {
+        deliverableEvents.push(event);
+        deliverableIndexes.push(index);
+        continue;
+      }
+      console.warn(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] 🚦 Event #${index} (${event.eventName}) over the ${decision.scope} rate limit`);
+      rateLimited++;
+      retryAfterSeconds = Math.max(retryAfterSeconds, decision.retryAfterSeconds);
+      results[index] = {
+        index,
+        type: event.eventName,
+        event_id: event.eventId,
+        success: false,
+        errors: [{ path: '', code: 'rate_limited', message: `Rate limit exceeded (${decision.scope})` }],
+        retry_after: decision.retryAfterSeconds,
+      };
+    }
+
+    console.log(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] ✅ ${validEvents.length} of ${events.length} events validated`, {
+      types: validEvents.reduce((counts: Record<string, number>, event) => {
+        counts[event.eventName] = (counts[event.eventName] || 0) + 1;
+        return counts;
+      }, {}),
+      has_fbc_cookie: request.cookies.has('_fbc'),
+      has_fbp_cookie: request.cookies.has('_fbp')
+    });
+
+    if (deliverableEvents.length > 0) {
+      console.log(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] 🚀 Sending ${deliverableEvents.length} events to Facebook Conversions API`);
+      const sendResults = await sendServerEventBatch(request, deliverableEvents);
+
+      sendResults.forEach(sendResult => {
+        const index = deliverableIndexes[sendResult.index];
+        results[index] = {
+          index,
+          type: sendResult.event_name,
+          event_id: sendResult.event_id,
+          success: sendResult.success,
+          ...(sendResult.fbtrace_id && { fbtrace_id: sendResult.fbtrace_id }),
+          ...(sendResult.queued && { queued: true }),
+          ...(!sendResult.success && { error: sendResult.error || sendResult.warning || 'Unknown error' }),
+          ...(sendResult.destinations && { destinations: sendResult.destinations }),
+          ...(sendResult.consent && { consent: sendResult.consent }),
+          ...(sendResult.traffic && { traffic: sendResult.traffic }),
+        };
+      });
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    const failed = results.length - succeeded;
+    const status = failed === 0
+      ? 200
+      : succeeded > 0
+        ? 207
+        : validEvents.length === 0
+          ? 400
+          : rateLimited === failed ? 429 : 500;
+
+    if (failed === 0) {
+      console.log(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] ✅ All ${succeeded} events processed successfully`);
+    } else {
+      console.warn(`[${timestamp}] [ECOMMERCE_BATCH] [${batchId}] ⚠️ Batch processed with ${succeeded} succeeded and ${failed} failed events`);
+    }
+
+    return NextResponse.json({
+      message: failed === 0
+        ? 'Batch processed successfully'
+        : succeeded > 0 ? 'Batch partially processed' : 'No event in the batch was processed',
+      success: failed === 0,
+      event_count: results.length,
+      succeeded,
+      failed,
+      results
+    }, {
+      status,
+      headers: status === 429
+        ? { ...corsHeaders, 'Retry-After': String(retryAfterSeconds), 'Access-Control-Expose-Headers': 'Retry-After' }
+        : corsHeaders
+    });
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [ECOMMERCE_BATCH_ERROR] [${batchId}] 💥 Critical error in e-commerce Batch API:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing event batch',
+        error: errorMessage,
+        success: false
+    }, { status: 500, headers: corsHeaders });
+  }
+}
@@ -0,0 +1,39 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE CompleteRegistration Event Endpoint
+ *
+ * Tracks customer account creation on the store (Shopify /account/register,
+ * social logins, Shop Pay sign up). Registered customers can be excluded from
+ * prospecting and used as a high-intent seed audience.
+ *
+ * All customData fields are optional:
+ * - status: Registration status (Facebook standard parameter)
+ * - registration_method: email, phone, google, facebook, apple, shop_pay, other
+ * - content_name: Name of the registration page or form
+ * - customer_id: Platform customer ID (also send it hashed as userData.external_id)
+ * - accepts_marketing: Whether the customer opted into marketing e-mails
+ * - value + currency: Estimated value of a new account (currency required when value is sent)
+ *
+ * Unknown customData keys are dropped, so raw form fields never reach
+ * Facebook unhashed through custom_data.
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'CompleteRegistration',
+  logTag: 'ECOMMERCE_COMPLETE_REGISTRATION',
+  ...EVENT_SCHEMAS.CompleteRegistration,
+  describe: data => ({
+    registration_method: data.registration_method || 'Not specified',
+    status: data.status || 'N/A',
+    customer_id: data.customer_id || 'N/A',
+    accepts_marketing: data.accepts_marketing ?? 'N/A'
+  }),
+  responseShape: data => ({
+    registration_data: {
+      registration_method: data.registration_method,
+      status: data.status
+    }
+  }),
+});
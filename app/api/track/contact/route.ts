@@ -0,0 +1,38 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE Contact Event Endpoint
+ *
+ * Tracks "contact us" flows: contact forms, chat, phone and WhatsApp
+ * buttons. Send em/ph in userData when the customer typed them.
+ *
+ * All customData fields are optional:
+ * - contact_method: email, phone, chat, whatsapp, contact_form, other
+ * - contact_reason: e.g. order_status, returns, product_question
+ * - form_id / content_name / content_category
+ * - order_id: Order the customer asks about
+ * - value + currency: Estimated value of the contact (currency required when value is sent)
+ *
+ * Unknown customData keys are dropped, so raw form fields never reach
+ * Facebook unhashed through custom_data.
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'Contact',
+  logTag: 'ECOMMERCE_CONTACT',
+  ...EVENT_SCHEMAS.Contact,
+  warnOnLowMatchQuality: true,
+  describe: data => ({
+    contact_method: data.contact_method || 'Not specified',
+    contact_reason: data.contact_reason || 'N/A',
+    form_id: data.form_id || 'N/A',
+    order_id: data.order_id || 'N/A'
+  }),
+  responseShape: data => ({
+    contact_data: {
+      contact_method: data.contact_method,
+      contact_reason: data.contact_reason
+    }
+  }),
+});
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CustomEventNameSchema, getCustomEventSchema, type CustomEventSchema } from '@/lib/custom-events';
+import { getCorsHeaders, handleCorsPreflight, rejectDisallowedOrigin } from '@/lib/cors';
+import { rejectUnsignedRequest } from '@/lib/request-signing';
+import { rejectRateLimited } from '@/lib/rate-limit';
+import { DEFAULT_TENANT_ID, resolveTenant } from '@/lib/tenants';
+import { createTrackingRoute, type TrackingRouteHandlers } from '@/lib/tracking-route';
+
+/**
+ * CUSTOM Event Endpoint
+ *
+ * Tracks events Meta does not define, e.g. POST /api/track/custom/SizeGuideOpened.
+ * The event name must be in the tenant's custom event catalogue
+ * (lib/custom-events.ts), and customData is validated with its schema.
+ * Everything else (body, cookies, response) works like the standard event
+ * routes (lib/tracking-route.ts).
+ *
+ * The event name is only checked once the request passed the origin and
+ * signature checks, and unknown names get 404 after the rate limit check.
+ * Names that are not in the catalogue are rate limited as "custom", so random
+ * names neither get their own quota nor add rate limit keys and metric labels.
+ */
+
+interface CustomEventRouteContext {
+  params: { eventName: string };
+}
+
+// Rate limit key (and metric label) of event names that are not in the catalogue
+const UNKNOWN_CUSTOM_EVENT_RATE_LIMIT_KEY = 'custom';
+
+// "<tenantId>:<eventName>" -> handlers built for the current schema of the event
+const customEventRoutes = new Map<string, { schema: CustomEventSchema; route: TrackingRouteHandlers }>();
+
+/**
+ * Handlers of a custom event, rebuilt when a reload or setCustomEvents changed its schema
+ */
+function getCustomEventRoute(tenantId: string, eventName: string, schema: CustomEventSchema): TrackingRouteHandlers {
+  const key = `${tenantId}:${eventName}`;
+  const cached = customEventRoutes.get(key);
+  if (cached && cached.schema === schema) return cached.route;
+
+  const route = createTrackingRoute({
+    eventName,
+    logTag: 'CUSTOM_EVENT',
+    schema,
+  });
+  customEventRoutes.set(key, { schema, route });
+  return route;
+}
+
+function rejectUnknownCustomEvent(request: NextRequest, tenantId: string, eventName: string): NextResponse {
+  console.warn(`[${new Date().toISOString()}] [CUSTOM_EVENT] ❌ Unknown custom event "${eventName}" for tenant ${tenantId}. Request rejected.`);
+  return NextResponse.json({
+    message: 'Unknown custom event',
+    errors: [{ path: 'eventName', code: 'unknown_event', message: `${eventName} is not in the custom event catalogue` }],
+    success: false
+  }, { status: 404, headers: getCorsHeaders(request) });
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight(request, 'CUSTOM_EVENT');
+}
+
+export async function POST(request: NextRequest, { params }: CustomEventRouteContext) {
+  const eventName = params.eventName;
+  const originRejection = rejectDisallowedOrigin(request, 'CUSTOM_EVENT');
+  if (originRejection) return originRejection;
+  const signatureRejection = await rejectUnsignedRequest(request, 'CUSTOM_EVENT');
+  if (signatureRejection) return signatureRejection;
+
+  const tenantId = resolveTenant(request)?.id || DEFAULT_TENANT_ID;
+  let schema: CustomEventSchema | null = null;
+  try {
+    if (CustomEventNameSchema.safeParse(eventName).success) {
+      schema = getCustomEventSchema(tenantId, eventName);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${new Date().toISOString()}] [CUSTOM_EVENT] 💥 Custom event catalogue could not be loaded:`, errorMessage);
+    return NextResponse.json({
+      message: 'Custom event catalogue could not be loaded',
+      error: errorMessage,
+      success: false
+    }, { status: 500, headers: getCorsHeaders(request) });
+  }
+
+  const rateLimitKey = schema ? eventName : UNKNOWN_CUSTOM_EVENT_RATE_LIMIT_KEY;
+  const rateLimitRejection = await rejectRateLimited(request, rateLimitKey, 'CUSTOM_EVENT');
+  if (rateLimitRejection) return rateLimitRejection;
+  if (!schema) {
+    return rejectUnknownCustomEvent(request, tenantId, eventName);
+  }
+
+  return getCustomEventRoute(tenantId, eventName, schema).handleEvent(request);
+}
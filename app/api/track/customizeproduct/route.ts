@@ -0,0 +1,38 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE CustomizeProduct Event Endpoint
+ *
+ * Tracks product configurators: color and size pickers, engraving, bundles
+ * of options. Shows which products shoppers invest time in before they buy.
+ *
+ * Required fields:
+ * - content_ids: Product SKUs/IDs being customised
+ *
+ * Optional fields:
+ * - content_name / content_category / variant_id
+ * - customization_type: e.g. engraving, color, size
+ * - options: Chosen options, e.g. { "color": "red", "engraving": "yes" }
+ * - value + currency: Price of the configured product (currency required when value is sent)
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'CustomizeProduct',
+  logTag: 'ECOMMERCE_CUSTOMIZE_PRODUCT',
+  ...EVENT_SCHEMAS.CustomizeProduct,
+  describe: data => ({
+    product_ids: data.content_ids,
+    customization_type: data.customization_type || 'Not specified',
+    options: data.options || {},
+    value: data.value !== undefined ? `${data.currency} ${data.value}` : 'N/A'
+  }),
+  responseShape: data => ({
+    product_data: {
+      ids: data.content_ids,
+      customization_type: data.customization_type,
+      value: data.value,
+      currency: data.currency
+    }
+  }),
+});
@@ -0,0 +1,37 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE Donate Event Endpoint
+ *
+ * Tracks donations, including round-ups added at checkout.
+ *
+ * Required fields:
+ * - value: Donated amount
+ * - currency: Currency code (ISO 4217)
+ *
+ * Optional fields:
+ * - donation_type: one_time, recurring
+ * - campaign_id / content_name: Cause or campaign
+ * - order_id: Order the donation was added to
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'Donate',
+  logTag: 'ECOMMERCE_DONATE',
+  ...EVENT_SCHEMAS.Donate,
+  describe: data => ({
+    value: `${data.currency} ${data.value}`,
+    donation_type: data.donation_type || 'Not specified',
+    campaign_id: data.campaign_id || 'N/A',
+    order_id: data.order_id || 'N/A'
+  }),
+  responseShape: data => ({
+    donation_data: {
+      value: data.value,
+      currency: data.currency,
+      donation_type: data.donation_type,
+      campaign_id: data.campaign_id
+    }
+  }),
+});
@@ -0,0 +1,34 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE FindLocation Event Endpoint
+ *
+ * Tracks store locator searches and store page visits, so online ads can be
+ * optimised for shoppers who go to a physical store.
+ *
+ * All customData fields are optional:
+ * - search_string: Address, city or ZIP code typed in the locator
+ * - location_id / location_name: Store that was selected
+ * - num_results: Number of stores found
+ * - content_name / content_category
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'FindLocation',
+  logTag: 'ECOMMERCE_FIND_LOCATION',
+  ...EVENT_SCHEMAS.FindLocation,
+  describe: data => ({
+    search_string: data.search_string || 'N/A',
+    location_id: data.location_id || 'N/A',
+    location_name: data.location_name || 'N/A',
+    num_results: data.num_results ?? 'N/A'
+  }),
+  responseShape: data => ({
+    location_data: {
+      location_id: data.location_id,
+      location_name: data.location_name,
+      num_results: data.num_results
+    }
+  }),
+});
@@ -0,0 +1,45 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE Lead Event Endpoint
+ *
+ * Tracks when a visitor hands over contact information without buying yet:
+ * newsletter popups, contact forms, waitlists and back-in-stock alerts.
+ * Leads are the main seed for prospecting lookalikes, so the contact data in
+ * userData (em/ph) matters more here than in any other storefront event.
+ *
+ * All customData fields are optional:
+ * - form_id: Identifier of the form or popup that captured the lead
+ * - form_name: Human readable form name
+ * - lead_type: newsletter, popup, contact_form, quote_request, waitlist, back_in_stock, other
+ * - lead_source: Where the form was shown (e.g. footer, exit_intent)
+ * - content_name / content_category: What the lead is about
+ * - value + currency: Estimated lead value (currency required when value is sent)
+ * - coupon_code: Discount offered in exchange for the signup
+ *
+ * Unknown customData keys are dropped, so raw form fields (names, e-mails)
+ * never reach Facebook unhashed through custom_data.
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'Lead',
+  logTag: 'ECOMMERCE_LEAD',
+  ...EVENT_SCHEMAS.Lead,
+  warnOnLowMatchQuality: true,
+  describe: data => ({
+    form_id: data.form_id || 'N/A',
+    form_name: data.form_name || 'N/A',
+    lead_type: data.lead_type || 'Not specified',
+    lead_source: data.lead_source || 'N/A',
+    value: data.value !== undefined ? `${data.currency} ${data.value}` : 'N/A'
+  }),
+  responseShape: data => ({
+    lead_data: {
+      form_id: data.form_id,
+      lead_type: data.lead_type,
+      value: data.value,
+      currency: data.currency
+    }
+  }),
+});
@@ -0,0 +1,35 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE Schedule Event Endpoint
+ *
+ * Tracks booked appointments: fittings, consultations, in-store pickups.
+ *
+ * All customData fields are optional:
+ * - appointment_type / appointment_id
+ * - appointment_time: ISO 8601 date-time with offset, e.g. 2024-05-01T15:30:00-03:00
+ * - location_id / location_name: Where the appointment takes place
+ * - content_name
+ * - value + currency: Value of the booking (currency required when value is sent)
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'Schedule',
+  logTag: 'ECOMMERCE_SCHEDULE',
+  ...EVENT_SCHEMAS.Schedule,
+  warnOnLowMatchQuality: true,
+  describe: data => ({
+    appointment_type: data.appointment_type || 'Not specified',
+    appointment_time: data.appointment_time || 'N/A',
+    location_id: data.location_id || 'N/A',
+    value: data.value !== undefined ? `${data.currency} ${data.value}` : 'N/A'
+  }),
+  responseShape: data => ({
+    schedule_data: {
+      appointment_type: data.appointment_type,
+      appointment_time: data.appointment_time,
+      location_id: data.location_id
+    }
+  }),
+});
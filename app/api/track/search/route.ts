@@ -0,0 +1,49 @@
+import { validateSearchData } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE Search Event Endpoint
+ *
+ * Tracks catalog searches (search page, predictive search) so Facebook can
+ * retarget shoppers by what they looked for and learn which queries convert.
+ *
+ * Required fields:
+ * - search_string: The query typed by the user
+ *
+ * Optional fields:
+ * - num_results: Total number of results the search returned
+ * - contents: Top result products (id, item_price, title, position, ...)
+ * - content_ids: Top result product IDs (derived from contents when omitted)
+ * - content_category: Collection the search was scoped to
+ * - search_source: Where the search happened (search_page, predictive_search, ...)
+ * - value + currency: Optional value of the search (currency required when value is sent)
+ *
+ * The query is normalised (NFKC, collapsed whitespace, lowercase unless
+ * SEARCH_QUERY_LOWERCASE=false) and truncated to SEARCH_QUERY_MAX_LENGTH
+ * characters. Only the first SEARCH_RESULTS_MAX_CONTENTS results are sent
+ * (validateSearchData in lib/ecommerce-types.ts, shared with the batch route).
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'Search',
+  logTag: 'ECOMMERCE_SEARCH',
+  validate: validateSearchData,
+  describe: (data, searchSummary) => ({
+    search_string: data.search_string,
+    query_truncated: searchSummary.queryTruncated,
+    original_query_length: searchSummary.originalQueryLength,
+    num_results: data.num_results ?? 'N/A',
+    products_sent: searchSummary.productCount,
+    results_dropped: searchSummary.droppedResults,
+    search_source: data.search_source || 'N/A'
+  }),
+  responseShape: (data, searchSummary) => ({
+    search_data: {
+      search_string: data.search_string,
+      query_truncated: searchSummary.queryTruncated,
+      num_results: data.num_results,
+      product_count: searchSummary.productCount,
+      product_ids: data.content_ids || []
+    }
+  }),
+});
@@ -0,0 +1,41 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE StartTrial Event Endpoint
+ *
+ * Tracks the start of a free or paid trial of a subscription product.
+ * Meta optimises trials for their predicted value, so predicted_ltv is required.
+ *
+ * Required fields:
+ * - predicted_ltv: Predicted lifetime value of the subscriber
+ * - currency: Currency code (ISO 4217)
+ *
+ * Optional fields:
+ * - value: Amount charged to start the trial (defaults to 0, must not exceed predicted_ltv)
+ * - trial_period_days
+ * - subscription_id / plan_id / billing_interval (day, week, month, year)
+ * - content_ids / content_name: Subscribed product
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'StartTrial',
+  logTag: 'ECOMMERCE_START_TRIAL',
+  ...EVENT_SCHEMAS.StartTrial,
+  describe: data => ({
+    plan_id: data.plan_id || 'N/A',
+    billing_interval: data.billing_interval || 'Not specified',
+    trial_period_days: data.trial_period_days ?? 'N/A',
+    value: `${data.currency} ${data.value}`,
+    predicted_ltv: `${data.currency} ${data.predicted_ltv}`
+  }),
+  responseShape: data => ({
+    subscription_data: {
+      subscription_id: data.subscription_id,
+      plan_id: data.plan_id,
+      value: data.value,
+      predicted_ltv: data.predicted_ltv,
+      currency: data.currency
+    }
+  }),
+});
@@ -0,0 +1,40 @@
+import { EVENT_SCHEMAS } from '@/lib/ecommerce-types';
+import { createTrackingRoute } from '@/lib/tracking-route';
+
+/**
+ * E-COMMERCE Subscribe Event Endpoint
+ *
+ * Tracks the first payment of a paid subscription (subscribe-and-save,
+ * memberships, boxes). Renewals should not be sent as new Subscribe events.
+ *
+ * Required fields:
+ * - value: First payment (must not exceed predicted_ltv)
+ * - predicted_ltv: Predicted lifetime value of the subscriber
+ * - currency: Currency code (ISO 4217)
+ *
+ * Optional fields:
+ * - subscription_id / plan_id / billing_interval (day, week, month, year)
+ * - content_ids / content_name: Subscribed product
+ */
+
+export const { POST, OPTIONS } = createTrackingRoute({
+  eventName: 'Subscribe',
+  logTag: 'ECOMMERCE_SUBSCRIBE',
+  ...EVENT_SCHEMAS.Subscribe,
+  describe: data => ({
+    subscription_id: data.subscription_id || 'N/A',
+    plan_id: data.plan_id || 'N/A',
+    billing_interval: data.billing_interval || 'Not specified',
+    value: `${data.currency} ${data.value}`,
+    predicted_ltv: `${data.currency} ${data.predicted_ltv}`
+  }),
+  responseShape: data => ({
+    subscription_data: {
+      subscription_id: data.subscription_id,
+      plan_id: data.plan_id,
+      value: data.value,
+      predicted_ltv: data.predicted_ltv,
+      currency: data.currency
+    }
+  }),
+});
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendPlatformOrderEvent } from '@/lib/platform-webhooks';
+import { mapCaktoOrder, verifyCaktoWebhook, type CaktoWebhookPayload } from '@/lib/cakto-webhooks';
+import { getConfig } from '@/lib/config';
+
+/**
+ * CAKTO Webhook Endpoint
+ *
+ * Receives Cakto webhooks and forwards them to Facebook CAPI:
+ * - paid            -> Purchase (via sendPurchaseEventViaWebhook)
+ * - refunded        -> Refund (negative value)
+ * - chargeback      -> Refund (negative value, adjustment_type "chargeback")
+ * - waiting_payment -> WaitingPayment (boleto/Pix generated)
+ *
+ * The `secret` field of the body must match CAKTO_WEBHOOK_SECRET.
+ * UTMs, src/sck and fbc/fbp sent by Cakto are forwarded with the event.
+ */
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+  let eventId = 'N/A';
+
+  try {
+    console.log(`[${timestamp}] [CAKTO_WEBHOOK] 🛎️ Received webhook from Cakto`);
+
+    const webhookSecret = getConfig().webhooks.caktoSecret;
+    if (!webhookSecret) {
+      console.error(`[${timestamp}] [CAKTO_WEBHOOK] ❌ CAKTO_WEBHOOK_SECRET is not set. Refusing unverifiable webhook.`);
+      return NextResponse.json({
+        message: 'Cakto webhook secret is not configured on server',
+        success: false
+      }, { status: 500 });
+    }
+
+    const payload = await request.json() as CaktoWebhookPayload;
+    if (!verifyCaktoWebhook(payload, webhookSecret)) {
+      console.warn(`[${timestamp}] [CAKTO_WEBHOOK] 🔒 Invalid Cakto secret. Webhook rejected.`);
+      return NextResponse.json({
+        message: 'Invalid Cakto webhook secret',
+        success: false
+      }, { status: 401 });
+    }
+
+    if (!payload.data) {
+      console.warn(`[${timestamp}] [CAKTO_WEBHOOK] ⚠️ Cakto webhook without data (event: ${payload.event || 'N/A'}). Nothing to track.`);
+      return NextResponse.json({
+        message: 'Cakto webhook acknowledged but not tracked',
+        errors: [{ path: 'data', code: 'invalid_type', message: 'data is missing from Cakto payload' }],
+        success: false
+      }, { status: 200 });
+    }
+
+    const order = mapCaktoOrder(payload);
+    console.log(`[${timestamp}] [CAKTO_WEBHOOK] [${order.orderId}] Raw Cakto payload:`, JSON.stringify({ ...payload, secret: '[REDACTED]' }, null, 2));
+    console.log(`[${timestamp}] [CAKTO_WEBHOOK] [${order.orderId}] 📦 ORDER SUMMARY:`, {
+      order_id: order.orderId,
+      cakto_event: payload.event || 'N/A',
+      cakto_status: payload.data.status || 'N/A',
+      mapped_status: order.status,
+      value: order.value,
+      currency: order.currency,
+      product: order.productName || order.productId,
+      payment_method: order.paymentMethod || 'Not specified',
+      event_time: order.eventTime,
+      tracking_parameters: order.trackingParameters
+    });
+
+    const outcome = await sendPlatformOrderEvent(request, order);
+    eventId = outcome.eventId;
+
+    if (!outcome.tracked) {
+      console.warn(`[${timestamp}] [CAKTO_WEBHOOK] [${eventId}] ⚠️ Order ${order.orderId} (${order.status}) not tracked:`, outcome.errors);
+      return NextResponse.json({
+        message: 'Cakto webhook acknowledged but not tracked',
+        errors: outcome.errors,
+        event_id: eventId,
+        success: false
+      }, { status: 200 });
+    }
+
+    const result = outcome.result;
+    console.log(`[${timestamp}] [CAKTO_WEBHOOK] [${eventId}] 📡 Facebook Conversions API response:`, JSON.stringify(result, null, 2));
+
+    if (result && result.success) {
+      console.log(`[${timestamp}] [CAKTO_WEBHOOK] [${eventId}] ✅ Cakto order ${order.orderId} tracked as ${outcome.eventName}! fbtrace_id: ${result.fbtrace_id}`);
+      return NextResponse.json({
+        message: `Cakto order tracked as ${outcome.eventName} successfully`,
+        fbtrace_id: result.fbtrace_id,
+        event_name: outcome.eventName,
+        event_id: eventId,
+        success: true
+      }, { status: 200 });
+    } else {
+      console.error(`[${timestamp}] [CAKTO_WEBHOOK] [${eventId}] ❌ Error sending ${outcome.eventName} for Cakto order ${order.orderId}:`, result?.error || result?.warning || 'Unknown error');
+      return NextResponse.json({
+        message: `Error sending Cakto ${outcome.eventName} event`,
+        error: result?.error || result?.warning || 'Unknown error',
+        event_id: eventId,
+        success: false
+      }, { status: 500 });
+    }
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [CAKTO_WEBHOOK_ERROR] [${eventId}] 💥 Critical error in Cakto webhook:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing Cakto webhook',
+        error: errorMessage,
+        event_id: eventId,
+        success: false
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendPlatformOrderEvent } from '@/lib/platform-webhooks';
+import { mapKiwifyOrder, verifyKiwifyWebhook, type KiwifyWebhookPayload } from '@/lib/kiwify-webhooks';
+import { getConfig } from '@/lib/config';
+
+/**
+ * KIWIFY Webhook Endpoint
+ *
+ * Receives Kiwify order webhooks and forwards them to Facebook CAPI:
+ * - paid            -> Purchase (via sendPurchaseEventViaWebhook)
+ * - refunded        -> Refund (negative value)
+ * - chargedback     -> Refund (negative value, adjustment_type "chargeback")
+ * - waiting_payment -> WaitingPayment (boleto/Pix generated)
+ *
+ * The `signature` query parameter (HMAC-SHA1 of the raw body with the webhook
+ * token, KIWIFY_WEBHOOK_SECRET) is verified before anything is processed.
+ * TrackingParameters (UTMs, src, sck) are forwarded as trackingParametersFromWebhook.
+ */
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+  let eventId = 'N/A';
+
+  try {
+    console.log(`[${timestamp}] [KIWIFY_WEBHOOK] 🛎️ Received webhook from Kiwify`);
+
+    const webhookSecret = getConfig().webhooks.kiwifySecret;
+    if (!webhookSecret) {
+      console.error(`[${timestamp}] [KIWIFY_WEBHOOK] ❌ KIWIFY_WEBHOOK_SECRET is not set. Refusing unverifiable webhook.`);
+      return NextResponse.json({
+        message: 'Kiwify webhook secret is not configured on server',
+        success: false
+      }, { status: 500 });
+    }
+
+    const rawBody = await request.text();
+    const isValidSignature = await verifyKiwifyWebhook(rawBody, request.nextUrl.searchParams.get('signature'), webhookSecret);
+    if (!isValidSignature) {
+      console.warn(`[${timestamp}] [KIWIFY_WEBHOOK] 🔒 Invalid Kiwify signature. Webhook rejected.`);
+      return NextResponse.json({
+        message: 'Invalid Kiwify webhook signature',
+        success: false
+      }, { status: 401 });
+    }
+
+    const payload = JSON.parse(rawBody) as KiwifyWebhookPayload;
+    const order = mapKiwifyOrder(payload);
+    console.log(`[${timestamp}] [KIWIFY_WEBHOOK] [${order.orderId}] Raw Kiwify payload:`, JSON.stringify(payload, null, 2));
+    console.log(`[${timestamp}] [KIWIFY_WEBHOOK] [${order.orderId}] 📦 ORDER SUMMARY:`, {
+      order_id: order.orderId,
+      kiwify_status: payload.order_status || 'N/A',
+      webhook_event_type: payload.webhook_event_type || 'N/A',
+      mapped_status: order.status,
+      value: order.value,
+      currency: order.currency,
+      product: order.productName || order.productId,
+      payment_method: order.paymentMethod || 'Not specified',
+      event_time: order.eventTime,
+      tracking_parameters: order.trackingParameters
+    });
+
+    const outcome = await sendPlatformOrderEvent(request, order);
+    eventId = outcome.eventId;
+
+    if (!outcome.tracked) {
+      console.warn(`[${timestamp}] [KIWIFY_WEBHOOK] [${eventId}] ⚠️ Order ${order.orderId} (${order.status}) not tracked:`, outcome.errors);
+      return NextResponse.json({
+        message: 'Kiwify webhook acknowledged but not tracked',
+        errors: outcome.errors,
+        event_id: eventId,
+        success: false
+      }, { status: 200 });
+    }
+
+    const result = outcome.result;
+    console.log(`[${timestamp}] [KIWIFY_WEBHOOK] [${eventId}] 📡 Facebook Conversions API response:`, JSON.stringify(result, null, 2));
+
+    if (result && result.success) {
+      console.log(`[${timestamp}] [KIWIFY_WEBHOOK] [${eventId}] ✅ Kiwify order ${order.orderId} tracked as ${outcome.eventName}! fbtrace_id: ${result.fbtrace_id}`);
+      return NextResponse.json({
+        message: `Kiwify order tracked as ${outcome.eventName} successfully`,
+        fbtrace_id: result.fbtrace_id,
+        event_name: outcome.eventName,
+        event_id: eventId,
+        success: true
+      }, { status: 200 });
+    } else {
+      console.error(`[${timestamp}] [KIWIFY_WEBHOOK] [${eventId}] ❌ Error sending ${outcome.eventName} for Kiwify order ${order.orderId}:`, result?.error || result?.warning || 'Unknown error');
+      return NextResponse.json({
+        message: `Error sending Kiwify ${outcome.eventName} event`,
+        error: result?.error || result?.warning || 'Unknown error',
+        event_id: eventId,
+        success: false
+      }, { status: 500 });
+    }
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [KIWIFY_WEBHOOK_ERROR] [${eventId}] 💥 Critical error in Kiwify webhook:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing Kiwify webhook',
+        error: errorMessage,
+        event_id: eventId,
+        success: false
+    }, { status: 500 });
+  }
+}
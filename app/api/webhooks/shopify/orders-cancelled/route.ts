@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRefundEventName, sendEcommerceRefund } from '@/lib/ecommerce-events';
+import { RefundDataSchema, buildCancellationEventId, validateEcommerceData } from '@/lib/ecommerce-types';
+import {
+  extractShopifyOrderUserData,
+  mapShopifyCancellationToRefundData,
+  toShopifyEventTime,
+  verifyShopifyWebhook,
+  type ShopifyOrder,
+} from '@/lib/shopify-webhooks';
+import { getConfig } from '@/lib/config';
+
+/**
+ * SHOPIFY orders/cancelled Webhook Endpoint
+ *
+ * Reports cancelled orders to Facebook as a negative-value custom event
+ * (REFUND_EVENT_NAME, default "Refund", with adjustment_type "cancellation").
+ *
+ * - Verifies the X-Shopify-Hmac-Sha256 signature (SHOPIFY_WEBHOOK_SECRET)
+ * - Adjustment value = order total minus the refunds already on the order
+ *   (those are reported by refunds/create), so nothing is subtracted twice
+ * - event_id is cancel_<order_id> and event_time is the order cancelled_at
+ */
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+  let eventId = 'N/A';
+  const eventName = getRefundEventName();
+
+  try {
+    const shopDomain = request.headers.get('x-shopify-shop-domain');
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] 🚫 Received orders/cancelled webhook from ${shopDomain || 'unknown shop'}`);
+
+    const webhookSecret = getConfig().webhooks.shopifySecret;
+    if (!webhookSecret) {
+      console.error(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] ❌ SHOPIFY_WEBHOOK_SECRET is not set. Refusing unverifiable webhook.`);
+      return NextResponse.json({
+        message: 'Shopify webhook secret is not configured on server',
+        success: false
+      }, { status: 500 });
+    }
+
+    const rawBody = await request.text();
+    const isValidSignature = await verifyShopifyWebhook(rawBody, request.headers.get('x-shopify-hmac-sha256'), webhookSecret);
+    if (!isValidSignature) {
+      console.warn(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] 🔒 Invalid X-Shopify-Hmac-Sha256 signature. Webhook rejected.`);
+      return NextResponse.json({
+        message: 'Invalid Shopify webhook signature',
+        success: false
+      }, { status: 401 });
+    }
+
+    const order = JSON.parse(rawBody) as ShopifyOrder;
+    eventId = buildCancellationEventId(order.id);
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] [${eventId}] Raw cancelled order payload:`, JSON.stringify(order, null, 2));
+
+    const validation = validateEcommerceData(RefundDataSchema, mapShopifyCancellationToRefundData(order));
+    if (!validation.isValid) {
+      console.warn(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] [${eventId}] ⚠️ Cancellation of order ${order.name || order.id} not tracked (nothing left to adjust or invalid data):`, validation.errors);
+      return NextResponse.json({
+        message: `Cancellation acknowledged but not tracked as ${eventName}`,
+        errors: validation.errors,
+        event_id: eventId,
+        success: false
+      }, { status: 200 });
+    }
+
+    const refundData = validation.sanitizedData!;
+    const eventTime = toShopifyEventTime(order.cancelled_at);
+
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] [${eventId}] 🚫 CANCELLATION SUMMARY:`, {
+      order_id: refundData.order_id,
+      order_name: order.name || 'N/A',
+      adjusted_value: refundData.refund_amount,
+      currency: refundData.currency,
+      items: refundData.num_items,
+      reason: refundData.reason || 'Not specified',
+      event_name: eventName,
+      event_time: eventTime
+    });
+
+    const result = await sendEcommerceRefund(
+      request,
+      extractShopifyOrderUserData(order),
+      refundData,
+      order.order_status_url || (shopDomain ? `https://${shopDomain}/` : undefined),
+      eventId,
+      eventTime,
+      { preferUserDataClientInfo: true, serverToServer: true }
+    );
+
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] [${eventId}] 📡 Facebook Conversions API response:`, JSON.stringify(result, null, 2));
+
+    if (result && result.success) {
+      console.log(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] [${eventId}] ✅ ${eventName} of ${refundData.currency} ${refundData.refund_amount} for cancelled order ${refundData.order_id} processed successfully! fbtrace_id: ${result.fbtrace_id}`);
+      return NextResponse.json({
+        message: `Shopify cancellation tracked as ${eventName} successfully`,
+        fbtrace_id: result.fbtrace_id,
+        event_id: eventId,
+        success: true
+      }, { status: 200 });
+    } else {
+      console.error(`[${timestamp}] [SHOPIFY_ORDERS_CANCELLED] [${eventId}] ❌ Error sending ${eventName} for cancelled order ${refundData.order_id}:`, result?.error || result?.warning || 'Unknown error');
+      return NextResponse.json({
+        message: `Error sending Shopify cancellation ${eventName} event`,
+        error: result?.error || result?.warning || 'Unknown error',
+        event_id: eventId,
+        success: false
+      }, { status: 500 });
+    }
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [SHOPIFY_ORDERS_CANCELLED_ERROR] [${eventId}] 💥 Critical error in Shopify orders/cancelled webhook:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing Shopify orders/cancelled webhook',
+        error: errorMessage,
+        event_id: eventId,
+        success: false
+    }, { status: 500 });
+  }
+}
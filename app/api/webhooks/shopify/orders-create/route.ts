@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendServerEvent } from '@/lib/fbevents';
+import { PurchaseDataSchema, buildPurchaseEventId, validateEcommerceData } from '@/lib/ecommerce-types';
+import {
+  extractShopifyOrderUserData,
+  extractShopifyTrackingParameters,
+  getShopifyOrderEventTime,
+  mapShopifyOrderToPurchaseData,
+  verifyShopifyWebhook,
+  type ShopifyOrder,
+} from '@/lib/shopify-webhooks';
+import { getConfig } from '@/lib/config';
+
+/**
+ * SHOPIFY orders/create Webhook Endpoint
+ *
+ * Server-only Purchase tracking. Shopify calls this endpoint for every new
+ * order, so conversions still reach Facebook when the thank-you page script
+ * is blocked or the tab is closed before /api/track/purchase is called.
+ *
+ * - Verifies the X-Shopify-Hmac-Sha256 signature (SHOPIFY_WEBHOOK_SECRET)
+ * - Maps line_items, totals, customer and note_attributes onto EcommercePurchaseData
+ * - Uses the order created_at as event_time
+ * - Uses buildPurchaseEventId(order.id) as event_id, the same ID the storefront
+ *   sends for the Purchase event, so Facebook deduplicates both paths
+ *
+ * Non-2xx responses make Shopify retry the delivery, so only Facebook delivery
+ * failures return 500. Orders that cannot be mapped are acknowledged with 200.
+ */
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+  let eventId = 'N/A';
+
+  try {
+    const shopDomain = request.headers.get('x-shopify-shop-domain');
+    const webhookId = request.headers.get('x-shopify-webhook-id');
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] 📦 Received orders/create webhook from ${shopDomain || 'unknown shop'} (webhook ID: ${webhookId || 'N/A'})`);
+
+    const webhookSecret = getConfig().webhooks.shopifySecret;
+    if (!webhookSecret) {
+      console.error(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] ❌ SHOPIFY_WEBHOOK_SECRET is not set. Refusing unverifiable webhook.`);
+      return NextResponse.json({
+        message: 'Shopify webhook secret is not configured on server',
+        success: false
+      }, { status: 500 });
+    }
+
+    const rawBody = await request.text();
+    const isValidSignature = await verifyShopifyWebhook(rawBody, request.headers.get('x-shopify-hmac-sha256'), webhookSecret);
+    if (!isValidSignature) {
+      console.warn(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] 🔒 Invalid X-Shopify-Hmac-Sha256 signature. Webhook rejected.`);
+      return NextResponse.json({
+        message: 'Invalid Shopify webhook signature',
+        success: false
+      }, { status: 401 });
+    }
+
+    const order = JSON.parse(rawBody) as ShopifyOrder;
+    eventId = buildPurchaseEventId(order.id);
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] Raw order payload:`, JSON.stringify(order, null, 2));
+
+    const validation = validateEcommerceData(PurchaseDataSchema, mapShopifyOrderToPurchaseData(order));
+    if (!validation.isValid) {
+      console.warn(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] ⚠️ Order ${order.name || order.id} cannot be tracked as Purchase:`, validation.errors);
+      return NextResponse.json({
+        message: 'Order acknowledged but not tracked as Purchase',
+        errors: validation.errors,
+        event_id: eventId,
+        success: false
+      }, { status: 200 });
+    }
+
+    const purchaseData = validation.sanitizedData!;
+    const userData = extractShopifyOrderUserData(order);
+    const trackingParameters = extractShopifyTrackingParameters(order);
+    const eventTime = getShopifyOrderEventTime(order);
+    const eventSourceUrl = order.order_status_url || (shopDomain ? `https://${shopDomain}/` : undefined);
+
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] 💰 ORDER SUMMARY:`, {
+      order_id: purchaseData.order_id,
+      order_name: order.name || 'N/A',
+      total_value: purchaseData.value,
+      currency: purchaseData.currency,
+      items_count: purchaseData.num_items,
+      products_count: purchaseData.contents.length,
+      payment_method: purchaseData.payment_method || 'Not specified',
+      event_time: eventTime,
+      has_fbc: !!userData.fbc,
+      has_fbp: !!userData.fbp,
+      tracking_parameters: trackingParameters
+    });
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] 🚀 Sending server-only Purchase event to Facebook Conversions API`);
+
+    const result = await sendServerEvent(
+      'Purchase',
+      request,
+      userData,
+      purchaseData,
+      eventSourceUrl,
+      eventId,
+      trackingParameters,
+      eventTime,
+      { preferUserDataClientInfo: true, serverToServer: true }
+    );
+
+    console.log(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] 📡 Facebook Conversions API response:`, JSON.stringify(result, null, 2));
+
+    if (result && result.success) {
+      console.log(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] ✅ Purchase for order ${order.name || order.id} processed successfully! fbtrace_id: ${result.fbtrace_id}`);
+      return NextResponse.json({
+        message: 'Shopify order tracked as Purchase successfully',
+        fbtrace_id: result.fbtrace_id,
+        event_id: eventId,
+        success: true
+      }, { status: 200 });
+    } else {
+      console.error(`[${timestamp}] [SHOPIFY_ORDERS_CREATE] [${eventId}] ❌ Error sending Purchase for order ${order.name || order.id}:`, result?.error || result?.warning || 'Unknown error');
+      return NextResponse.json({
+        message: 'Error sending Shopify order Purchase event',
+        error: result?.error || result?.warning || 'Unknown error',
+        event_id: eventId,
+        success: false
+      }, { status: 500 });
+    }
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [SHOPIFY_ORDERS_CREATE_ERROR] [${eventId}] 💥 Critical error in Shopify orders/create webhook:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing Shopify orders/create webhook',
+        error: errorMessage,
+        event_id: eventId,
+        success: false
+    }, { status: 500 });
+  }
+}
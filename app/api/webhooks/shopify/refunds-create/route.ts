@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRefundEventName, sendEcommerceRefund } from '@/lib/ecommerce-events';
+import { RefundDataSchema, buildRefundEventId, validateEcommerceData } from '@/lib/ecommerce-types';
+import {
+  mapShopifyRefundToRefundData,
+  toShopifyEventTime,
+  verifyShopifyWebhook,
+  type ShopifyRefund,
+} from '@/lib/shopify-webhooks';
+import { getConfig } from '@/lib/config';
+
+/**
+ * SHOPIFY refunds/create Webhook Endpoint
+ *
+ * Reports refunds to Facebook as a negative-value custom event (REFUND_EVENT_NAME,
+ * default "Refund") so ROAS reporting stops counting money that was returned.
+ *
+ * - Verifies the X-Shopify-Hmac-Sha256 signature (SHOPIFY_WEBHOOK_SECRET)
+ * - Sends the refunded line items, the refunded value (negative) and the
+ *   original order_id
+ * - event_id is refund_<refund_id>, so Shopify retries are deduplicated
+ *
+ * The refund payload does not carry customer data, so matching relies on
+ * order_id and whatever Facebook can link to the original Purchase.
+ */
+
+export async function POST(request: NextRequest) {
+  const timestamp = new Date().toISOString();
+  let eventId = 'N/A';
+  const eventName = getRefundEventName();
+
+  try {
+    const shopDomain = request.headers.get('x-shopify-shop-domain');
+    console.log(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] 💸 Received refunds/create webhook from ${shopDomain || 'unknown shop'}`);
+
+    const webhookSecret = getConfig().webhooks.shopifySecret;
+    if (!webhookSecret) {
+      console.error(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] ❌ SHOPIFY_WEBHOOK_SECRET is not set. Refusing unverifiable webhook.`);
+      return NextResponse.json({
+        message: 'Shopify webhook secret is not configured on server',
+        success: false
+      }, { status: 500 });
+    }
+
+    const rawBody = await request.text();
+    const isValidSignature = await verifyShopifyWebhook(rawBody, request.headers.get('x-shopify-hmac-sha256'), webhookSecret);
+    if (!isValidSignature) {
+      console.warn(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] 🔒 Invalid X-Shopify-Hmac-Sha256 signature. Webhook rejected.`);
+      return NextResponse.json({
+        message: 'Invalid Shopify webhook signature',
+        success: false
+      }, { status: 401 });
+    }
+
+    const refund = JSON.parse(rawBody) as ShopifyRefund;
+    eventId = buildRefundEventId(refund.id);
+    console.log(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] [${eventId}] Raw refund payload:`, JSON.stringify(refund, null, 2));
+
+    const validation = validateEcommerceData(RefundDataSchema, mapShopifyRefundToRefundData(refund));
+    if (!validation.isValid) {
+      console.warn(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] [${eventId}] ⚠️ Refund ${refund.id} for order ${refund.order_id} cannot be tracked:`, validation.errors);
+      return NextResponse.json({
+        message: `Refund acknowledged but not tracked as ${eventName}`,
+        errors: validation.errors,
+        event_id: eventId,
+        success: false
+      }, { status: 200 });
+    }
+
+    const refundData = validation.sanitizedData!;
+    const eventTime = toShopifyEventTime(refund.processed_at || refund.created_at);
+
+    console.log(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] [${eventId}] 💸 REFUND SUMMARY:`, {
+      order_id: refundData.order_id,
+      refund_id: refundData.refund_id,
+      refunded_value: refundData.refund_amount,
+      currency: refundData.currency,
+      refunded_items: refundData.num_items,
+      event_name: eventName,
+      event_time: eventTime
+    });
+
+    const result = await sendEcommerceRefund(
+      request,
+      {},
+      refundData,
+      shopDomain ? `https://${shopDomain}/` : undefined,
+      eventId,
+      eventTime,
+      { preferUserDataClientInfo: true, serverToServer: true }
+    );
+
+    console.log(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] [${eventId}] 📡 Facebook Conversions API response:`, JSON.stringify(result, null, 2));
+
+    if (result && result.success) {
+      console.log(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] [${eventId}] ✅ ${eventName} of ${refundData.currency} ${refundData.refund_amount} for order ${refundData.order_id} processed successfully! fbtrace_id: ${result.fbtrace_id}`);
+      return NextResponse.json({
+        message: `Shopify refund tracked as ${eventName} successfully`,
+        fbtrace_id: result.fbtrace_id,
+        event_id: eventId,
+        success: true
+      }, { status: 200 });
+    } else {
+      console.error(`[${timestamp}] [SHOPIFY_REFUNDS_CREATE] [${eventId}] ❌ Error sending ${eventName} for order ${refundData.order_id}:`, result?.error || result?.warning || 'Unknown error');
+      return NextResponse.json({
+        message: `Error sending Shopify refund ${eventName} event`,
+        error: result?.error || result?.warning || 'Unknown error',
+        event_id: eventId,
+        success: false
+      }, { status: 500 });
+    }
+  } catch (error) {
+    const errorTimestamp = new Date().toISOString();
+    console.error(`[${errorTimestamp}] [SHOPIFY_REFUNDS_CREATE_ERROR] [${eventId}] 💥 Critical error in Shopify refunds/create webhook:`, error);
+    let errorMessage = 'Internal Server Error';
+    if (error instanceof Error) {
+        errorMessage = error.message;
+    }
+    return NextResponse.json({
+        message: 'Critical error processing Shopify refunds/create webhook',
+        error: errorMessage,
+        event_id: eventId,
+        success: false
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Runs once when the server starts (Next.js instrumentation hook). Loading the
+ * configuration, the tenants and the custom event catalogue here makes a
+ * misconfigured deployment fail at startup instead of on the first tracked event.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getConfig } = await import('./lib/config');
+  const { DEFAULT_TENANT_ID, getTenants } = await import('./lib/tenants');
+  const { getCustomEventCatalogue } = await import('./lib/custom-events');
+  getConfig();
+  getTenants();
+  getCustomEventCatalogue(DEFAULT_TENANT_ID);
+}
@@ -0,0 +1,41 @@
+/**
+ * ADMIN AUTHENTICATION
+ *
+ * Bearer token check of the admin endpoints (/api/metrics, /api/queue/*).
+ * Every admin endpoint requires Authorization: Bearer <QUEUE_ADMIN_TOKEN> and
+ * refuses all requests while QUEUE_ADMIN_TOKEN is not set.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from './config';
+import { safeCompare } from './webhook-signatures';
+
+/**
+ * Checks Authorization: Bearer <QUEUE_ADMIN_TOKEN> of an admin endpoint;
+ * returns the 500 (token not configured) or 401 response, or null when authorized
+ */
+export function rejectUnauthorizedAdmin(request: NextRequest, logTag: string): NextResponse | null {
+  const timestamp = new Date().toISOString();
+  const adminToken = getConfig().queueAdminToken;
+  if (!adminToken) {
+    console.error(`[${timestamp}] [${logTag}] ❌ QUEUE_ADMIN_TOKEN is not set. Refusing unauthenticated admin access.`);
+    return NextResponse.json({
+      message: 'Admin token is not configured on server',
+      success: false
+    }, { status: 500 });
+  }
+
+  const authorization = request.headers.get('authorization') || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+  if (!safeCompare(token, adminToken)) {
+    console.warn(`[${timestamp}] [${logTag}] 🔒 Invalid admin token. Request rejected.`);
+    return NextResponse.json({
+      message: 'Invalid admin token',
+      success: false
+    }, { status: 401 });
+  }
+  return null;
+}
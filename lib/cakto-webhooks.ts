@@ -0,0 +1,133 @@
+/**
+ * CAKTO WEBHOOK HELPERS
+ *
+ * Types, token verification and mapping of Cakto webhooks onto the
+ * normalised PlatformOrder used by lib/platform-webhooks.ts.
+ *
+ * Cakto sends the secret configured in the webhook as the `secret` field of
+ * the JSON body, which is compared in constant time with CAKTO_WEBHOOK_SECRET.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { UserData } from './fbevents';
+import { safeCompare } from './webhook-signatures';
+import {
+  mapPlatformPaymentMethod,
+  parsePlatformDate,
+  pickTrackingParameters,
+  splitFullName,
+  type PlatformOrder,
+  type PlatformOrderStatus,
+} from './platform-webhooks';
+
+// =============================================================================
+// CAKTO PAYLOAD TYPES (only the fields we consume)
+// =============================================================================
+
+export interface CaktoOrderData {
+  [key: string]: unknown; // UTMs (utm_source, sck, src, ...) come as top-level fields
+  id: string;
+  refId?: string;
+  status?: string;
+  amount?: number | string;
+  baseAmount?: number | string;
+  currency?: string;
+  paymentMethod?: string;
+  checkoutUrl?: string;
+  createdAt?: string;
+  paidAt?: string | null;
+  refundedAt?: string | null;
+  chargedbackAt?: string | null;
+  fbc?: string | null;
+  fbp?: string | null;
+  customer?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+  product?: {
+    id?: string;
+    name?: string;
+  };
+}
+
+export interface CaktoWebhookPayload {
+  secret?: string;
+  event?: string;
+  data: CaktoOrderData;
+}
+
+// =============================================================================
+// TOKEN VERIFICATION
+// =============================================================================
+
+/**
+ * Verifies the shared secret sent in the webhook body
+ */
+export function verifyCaktoWebhook(payload: CaktoWebhookPayload, secret: string): boolean {
+  return safeCompare(payload?.secret, secret);
+}
+
+// =============================================================================
+// MAPPERS
+// =============================================================================
+
+/**
+ * Maps Cakto order status / event onto the shared status set
+ */
+export function mapCaktoStatus(payload: CaktoWebhookPayload): PlatformOrderStatus {
+  const status = (payload.data?.status || '').toLowerCase();
+  const event = (payload.event || '').toLowerCase();
+
+  if (status === 'paid' || status === 'approved' || event === 'purchase_approved') return 'paid';
+  if (status === 'refunded' || event === 'refund') return 'refunded';
+  if (status === 'chargedback' || status === 'chargeback' || event === 'chargeback') return 'chargeback';
+  if (status === 'waiting_payment' || event === 'boleto_gerado' || event === 'pix_gerado') return 'waiting_payment';
+  if (status === 'refused' || event === 'purchase_refused') return 'refused';
+  return 'unknown';
+}
+
+/**
+ * Normalises a Cakto webhook payload
+ */
+export function mapCaktoOrder(payload: CaktoWebhookPayload): PlatformOrder {
+  const data = payload.data;
+  const status = mapCaktoStatus(payload);
+  const customer = data.customer || {};
+  const { firstName, lastName } = splitFullName(customer.name);
+  const amount = Number(data.amount ?? data.baseAmount);
+
+  const userData: UserData = {
+    ...(customer.email && { em: [customer.email] }),
+    ...(customer.phone && { ph: [customer.phone] }),
+    ...(firstName && { fn: [firstName] }),
+    ...(lastName && { ln: [lastName] }),
+    ...(data.fbc && { fbc: data.fbc }),
+    ...(data.fbp && { fbp: data.fbp }),
+  };
+
+  const eventDate = status === 'refunded'
+    ? data.refundedAt
+    : status === 'chargeback'
+      ? data.chargedbackAt
+      : status === 'paid'
+        ? data.paidAt
+        : data.createdAt;
+
+  return {
+    platform: 'cakto',
+    orderId: String(data.refId || data.id),
+    status,
+    value: Number.isFinite(amount) ? amount : 0,
+    currency: data.currency || 'BRL',
+    productId: String(data.product?.id || data.id),
+    productName: data.product?.name,
+    paymentMethod: mapPlatformPaymentMethod(data.paymentMethod),
+    eventTime: parsePlatformDate(eventDate || data.createdAt),
+    eventSourceUrl: data.checkoutUrl || 'https://pay.cakto.com.br/',
+    userData,
+    trackingParameters: pickTrackingParameters(data),
+  };
+}
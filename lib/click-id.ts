@@ -0,0 +1,227 @@
+/**
+ * FACEBOOK CLICK ID (fbc) HANDLING
+ *
+ * Builds and normalises the fbc parameter from fbclid values and _fbc cookies.
+ * Facebook expects fbc in the format:
+ *
+ *   fb.<subdomain_index>.<creation_time>.<fbclid>
+ *
+ * - subdomain_index: number of labels of the cookie domain minus one
+ *   ("com" = 0, "example.com" = 1, "www.example.com" = 2). Server-built values use 1.
+ * - creation_time: Unix time in MILLISECONDS when the fbclid was first seen
+ * - fbclid: the raw click ID from the landing page URL
+ *
+ * Click IDs of other ad platforms (ttclid, gclid, epik, ScCid) are looked up
+ * with findClickId for the destination adapters.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FbcSource =
+  | 'cookie'               // _fbc cookie/userData.fbc used as-is
+  | 'cookie_normalized'    // cookie kept, but its creation_time was converted from seconds to milliseconds
+  | 'cookie_matches_fbclid' // fbclid present, existing cookie already holds the same click ID
+  | 'built_from_fbclid'    // new fbc built from the fbclid of this event
+  | 'built_from_bare_value' // userData.fbc held a bare fbclid and was wrapped into the fbc format
+  | 'invalid_dropped'      // fbc value could not be parsed or repaired and was not sent
+  | 'none';                // no click ID available
+
+export interface ParsedFbc {
+  subdomainIndex: number;
+  creationTime: number;
+  fbclid: string;
+}
+
+export interface FbcResolution {
+  fbc?: string;
+  source: FbcSource;
+  fbclid?: string;
+  creationTime?: number;
+  replacedCookie?: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_FBC_SUBDOMAIN_INDEX = 1;
+
+// Unix timestamps in seconds have 10 digits until 2286, in milliseconds 13
+const SECONDS_TIMESTAMP_MAX = 9_999_999_999;
+
+// fbclid values are URL-safe tokens; anything else is not a click ID
+const FBCLID_PATTERN = /^[A-Za-z0-9_\-.]+$/;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Returns true when the value looks like a raw fbclid
+ */
+export function isValidFbclid(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= 500 && FBCLID_PATTERN.test(value);
+}
+
+/**
+ * Parses an fbc value. Returns null when the value is not in the fb.N.T.fbclid format.
+ */
+export function parseFbc(value: string | null | undefined): ParsedFbc | null {
+  if (!value) return null;
+  const parts = value.trim().split('.');
+  if (parts.length < 4 || parts[0] !== 'fb') return null;
+
+  const subdomainIndex = Number(parts[1]);
+  const creationTime = Number(parts[2]);
+  const fbclid = parts.slice(3).join('.');
+
+  if (!Number.isInteger(subdomainIndex) || subdomainIndex < 0) return null;
+  if (!Number.isInteger(creationTime) || creationTime <= 0) return null;
+  if (!fbclid) return null;
+
+  return { subdomainIndex, creationTime, fbclid };
+}
+
+/**
+ * Converts a creation time in seconds to milliseconds (a common client-side mistake)
+ */
+export function normalizeCreationTime(creationTime: number): number {
+  return creationTime <= SECONDS_TIMESTAMP_MAX ? creationTime * 1000 : creationTime;
+}
+
+/**
+ * Builds a Facebook-formatted fbc from a raw fbclid
+ */
+export function buildFbc(
+  fbclid: string,
+  options: { creationTime?: number; subdomainIndex?: number } = {}
+): string {
+  const { creationTime = Date.now(), subdomainIndex = DEFAULT_FBC_SUBDOMAIN_INDEX } = options;
+  return `fb.${subdomainIndex}.${normalizeCreationTime(Math.floor(creationTime))}.${fbclid}`;
+}
+
+/**
+ * Subdomain index for a cookie domain: ".example.com" -> 1, "shop.example.com.br" -> 3
+ */
+export function computeSubdomainIndex(cookieDomain: string | null | undefined): number {
+  if (!cookieDomain) return DEFAULT_FBC_SUBDOMAIN_INDEX;
+  const labels = cookieDomain.replace(/^\./, '').split('.').filter(Boolean);
+  return Math.max(0, labels.length - 1);
+}
+
+/**
+ * Extracts fbclid from the query string of a URL
+ */
+export function extractFbclidFromUrl(url: string | null | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    const fbclid = new URL(url).searchParams.get('fbclid');
+    return isValidFbclid(fbclid) ? fbclid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * Decides the fbc to send for an event:
+ * 1. fbclid present and the existing fbc holds the same click ID -> keep the existing value
+ *    (it carries the original click time)
+ * 2. fbclid present otherwise -> build a new fbc (creation_time = event time)
+ * 3. no fbclid -> use the existing fbc, normalising second-based timestamps and
+ *    wrapping bare fbclid values; unparseable values are dropped
+ */
+export function resolveFbc(params: {
+  existingFbc?: string | null;
+  fbclid?: string | null;
+  eventTimeMs?: number;
+  subdomainIndex?: number;
+}): FbcResolution {
+  const { existingFbc, fbclid, eventTimeMs = Date.now(), subdomainIndex = DEFAULT_FBC_SUBDOMAIN_INDEX } = params;
+  const existing = existingFbc ? existingFbc.trim() : '';
+  const parsedExisting = parseFbc(existing);
+  const clickId = isValidFbclid(fbclid) ? fbclid : undefined;
+
+  if (clickId) {
+    if (parsedExisting && parsedExisting.fbclid === clickId) {
+      const creationTime = normalizeCreationTime(parsedExisting.creationTime);
+      return {
+        fbc: buildFbc(clickId, { creationTime, subdomainIndex: parsedExisting.subdomainIndex }),
+        source: 'cookie_matches_fbclid',
+        fbclid: clickId,
+        creationTime,
+      };
+    }
+    return {
+      fbc: buildFbc(clickId, { creationTime: eventTimeMs, subdomainIndex }),
+      source: 'built_from_fbclid',
+      fbclid: clickId,
+      creationTime: normalizeCreationTime(Math.floor(eventTimeMs)),
+      ...(existing && { replacedCookie: true }),
+    };
+  }
+
+  if (parsedExisting) {
+    const creationTime = normalizeCreationTime(parsedExisting.creationTime);
+    return {
+      fbc: buildFbc(parsedExisting.fbclid, { creationTime, subdomainIndex: parsedExisting.subdomainIndex }),
+      source: creationTime === parsedExisting.creationTime ? 'cookie' : 'cookie_normalized',
+      fbclid: parsedExisting.fbclid,
+      creationTime,
+    };
+  }
+
+  if (existing && !existing.startsWith('fb.') && isValidFbclid(existing)) {
+    return {
+      fbc: buildFbc(existing, { creationTime: eventTimeMs, subdomainIndex }),
+      source: 'built_from_bare_value',
+      fbclid: existing,
+      creationTime: normalizeCreationTime(Math.floor(eventTimeMs)),
+    };
+  }
+
+  return { source: existing ? 'invalid_dropped' : 'none' };
+}
+
+// =============================================================================
+// OTHER PLATFORMS
+// =============================================================================
+
+/**
+ * Finds a click ID of another ad platform: first in urlParameters, then in the
+ * query string of the event source URL, then in a cookie set by its tag
+ */
+export function findClickId(
+  sources: {
+    urlParameters?: Record<string, unknown>;
+    eventSourceUrl?: string;
+    getCookie?: (name: string) => string | undefined;
+  },
+  parameterNames: string[],
+  cookieName?: string
+): string | undefined {
+  for (const name of parameterNames) {
+    const value = sources.urlParameters?.[name];
+    if (typeof value === 'string' && value) return value;
+  }
+  if (sources.eventSourceUrl) {
+    try {
+      const searchParams = new URL(sources.eventSourceUrl).searchParams;
+      for (const name of parameterNames) {
+        const value = searchParams.get(name);
+        if (value) return value;
+      }
+    } catch {
+      // Invalid URL: fall through to the cookie
+    }
+  }
+  return cookieName && sources.getCookie ? sources.getCookie(cookieName) || undefined : undefined;
+}
@@ -0,0 +1,282 @@
+/**
+ * APPLICATION CONFIGURATION
+ *
+ * Reads and validates the environment once and exposes it as a typed config
+ * object. There are no built-in credentials: without TENANTS_CONFIG, a missing
+ * FACEBOOK_DATASET_ID, FACEBOOK_ACCESS_TOKEN or ALLOWED_ORIGIN is an error, and
+ * the server refuses to start (instrumentation.ts) instead of sending events
+ * to a dataset nobody configured.
+ *
+ * Every secret can be read from a file instead, e.g. FACEBOOK_ACCESS_TOKEN_FILE=
+ * /run/secrets/facebook_access_token (Docker / Kubernetes secrets). The file
+ * content is trimmed; setting both the variable and its _FILE is an error.
+ *
+ * Tuning knobs (queue, micro-batching, cookies, consent...) stay next to the
+ * code that uses them.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { isValidAllowedOrigin } from './origins';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AppConfig {
+  facebook: {
+    // Required unless tenants come from TENANTS_CONFIG
+    datasetId?: string;
+    accessToken?: string;
+    testEventCode?: string;
+  };
+  // ALLOWED_ORIGIN, comma-separated origins or https://*.domain patterns (lib/origins.ts)
+  allowedOrigins: string[];
+  ipdataApiKey?: string;
+  tenants: {
+    rawConfig?: string; // JSON array of tenants (lib/tenants.ts)
+  };
+  webhooks: {
+    shopifySecret?: string;
+    caktoSecret?: string;
+    kiwifySecret?: string;
+  };
+  queueAdminToken?: string;
+  // Signed client requests (lib/request-signing.ts)
+  requestSigning: {
+    mode: 'off' | 'enforce';
+    secret?: string;
+    orderSecret?: string;
+    appProxySecret?: string;
+  };
+  tiktok?: {
+    pixelCode: string;
+    accessToken: string;
+    testEventCode?: string;
+  };
+  ga4?: {
+    measurementId: string;
+    apiSecret: string;
+  };
+}
+
+export interface ConfigValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  config: AppConfig | null;
+}
+
+type Environment = Record<string, string | undefined>;
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+// Variables that may also be given as <NAME>_FILE
+export const SECRET_VARIABLES = [
+  'FACEBOOK_ACCESS_TOKEN',
+  'IPDATA_API_KEY',
+  'TENANTS_CONFIG',
+  'SHOPIFY_WEBHOOK_SECRET',
+  'CAKTO_WEBHOOK_SECRET',
+  'KIWIFY_WEBHOOK_SECRET',
+  'QUEUE_ADMIN_TOKEN',
+  'REQUEST_SIGNING_SECRET',
+  'PURCHASE_ORDER_SECRET',
+  'SHOPIFY_APP_PROXY_SECRET',
+  'TIKTOK_ACCESS_TOKEN',
+  'GA4_API_SECRET',
+] as const;
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Unset and blank variables are treated alike
+const OptionalString = z.preprocess(
+  value => (typeof value === 'string' && value.trim() === '' ? undefined : value),
+  z.string().trim().optional()
+);
+
+export const EnvironmentSchema = z.object({
+  FACEBOOK_DATASET_ID: OptionalString.refine(value => !value || /^\d+$/.test(value), 'must be a numeric dataset ID'),
+  FACEBOOK_ACCESS_TOKEN: OptionalString,
+  FACEBOOK_TEST_EVENT_CODE: OptionalString,
+  ALLOWED_ORIGIN: OptionalString.refine(
+    value => !value || splitList(value).every(isValidAllowedOrigin),
+    'must be a comma-separated list of origins or patterns, e.g. https://www.store.com,https://*.myshopify.com'
+  ),
+  IPDATA_API_KEY: OptionalString,
+  TENANTS_CONFIG: OptionalString,
+  SHOPIFY_WEBHOOK_SECRET: OptionalString,
+  CAKTO_WEBHOOK_SECRET: OptionalString,
+  KIWIFY_WEBHOOK_SECRET: OptionalString,
+  QUEUE_ADMIN_TOKEN: OptionalString,
+  REQUEST_SIGNING: z.preprocess(
+    value => (typeof value === 'string' && value.trim() !== '' ? value.trim().toLowerCase() : undefined),
+    z.enum(['off', 'enforce']).default('off')
+  ),
+  REQUEST_SIGNING_SECRET: OptionalString.refine(value => !value || value.length >= 32, 'must have at least 32 characters'),
+  PURCHASE_ORDER_SECRET: OptionalString,
+  SHOPIFY_APP_PROXY_SECRET: OptionalString,
+  TIKTOK_PIXEL_CODE: OptionalString,
+  TIKTOK_ACCESS_TOKEN: OptionalString,
+  TIKTOK_TEST_EVENT_CODE: OptionalString,
+  GA4_MEASUREMENT_ID: OptionalString,
+  GA4_API_SECRET: OptionalString,
+}).superRefine((env, ctx) => {
+  // Single-store deployments: the default tenant is built from these
+  if (!env.TENANTS_CONFIG) {
+    const required: Array<[keyof typeof env, string]> = [
+      ['FACEBOOK_DATASET_ID', 'is required (or configure tenants with TENANTS_CONFIG)'],
+      ['FACEBOOK_ACCESS_TOKEN', 'is required (or configure tenants with TENANTS_CONFIG)'],
+      ['ALLOWED_ORIGIN', 'is required for CORS (or configure tenants with TENANTS_CONFIG)'],
+    ];
+    for (const [name, message] of required) {
+      if (!env[name]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message });
+      }
+    }
+  }
+
+  // Tenants from TENANTS_CONFIG may bring their own signing secret (checked in lib/tenants.ts)
+  if (env.REQUEST_SIGNING === 'enforce' && !env.REQUEST_SIGNING_SECRET && !env.TENANTS_CONFIG) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['REQUEST_SIGNING_SECRET'], message: 'is required when REQUEST_SIGNING=enforce' });
+  }
+
+  // Half-configured destinations are almost always a typo
+  const pairs: Array<[keyof typeof env, keyof typeof env]> = [
+    ['TIKTOK_PIXEL_CODE', 'TIKTOK_ACCESS_TOKEN'],
+    ['GA4_MEASUREMENT_ID', 'GA4_API_SECRET'],
+  ];
+  for (const [first, second] of pairs) {
+    if (Boolean(env[first]) !== Boolean(env[second])) {
+      const missing = env[first] ? second : first;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [missing], message: `is required together with ${env[first] ? first : second}` });
+    }
+  }
+});
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+let appConfig: AppConfig | null = null;
+
+/**
+ * Replaces <NAME>_FILE variables with the trimmed content of the file
+ */
+function resolveSecretFiles(env: Environment): { values: Environment; errors: string[] } {
+  const values: Environment = { ...env };
+  const errors: string[] = [];
+
+  for (const name of SECRET_VARIABLES) {
+    const filePath = env[`${name}_FILE`];
+    if (!filePath) continue;
+
+    if (env[name]) {
+      errors.push(`${name}: set either ${name} or ${name}_FILE, not both`);
+      continue;
+    }
+    try {
+      values[name] = readFileSync(filePath, 'utf8').trim();
+    } catch (error) {
+      errors.push(`${name}_FILE: cannot read "${filePath}" (${(error as Error).message})`);
+    }
+  }
+  return { values, errors };
+}
+
+function toAppConfig(env: z.infer<typeof EnvironmentSchema>): AppConfig {
+  return {
+    facebook: {
+      datasetId: env.FACEBOOK_DATASET_ID,
+      accessToken: env.FACEBOOK_ACCESS_TOKEN,
+      testEventCode: env.FACEBOOK_TEST_EVENT_CODE,
+    },
+    allowedOrigins: env.ALLOWED_ORIGIN ? splitList(env.ALLOWED_ORIGIN) : [],
+    ipdataApiKey: env.IPDATA_API_KEY,
+    tenants: {
+      rawConfig: env.TENANTS_CONFIG,
+    },
+    webhooks: {
+      shopifySecret: env.SHOPIFY_WEBHOOK_SECRET,
+      caktoSecret: env.CAKTO_WEBHOOK_SECRET,
+      kiwifySecret: env.KIWIFY_WEBHOOK_SECRET,
+    },
+    queueAdminToken: env.QUEUE_ADMIN_TOKEN,
+    requestSigning: {
+      mode: env.REQUEST_SIGNING,
+      secret: env.REQUEST_SIGNING_SECRET,
+      orderSecret: env.PURCHASE_ORDER_SECRET,
+      appProxySecret: env.SHOPIFY_APP_PROXY_SECRET,
+    },
+    ...(env.TIKTOK_PIXEL_CODE && env.TIKTOK_ACCESS_TOKEN && {
+      tiktok: {
+        pixelCode: env.TIKTOK_PIXEL_CODE,
+        accessToken: env.TIKTOK_ACCESS_TOKEN,
+        testEventCode: env.TIKTOK_TEST_EVENT_CODE,
+      },
+    }),
+    ...(env.GA4_MEASUREMENT_ID && env.GA4_API_SECRET && {
+      ga4: {
+        measurementId: env.GA4_MEASUREMENT_ID,
+        apiSecret: env.GA4_API_SECRET,
+      },
+    }),
+  };
+}
+
+/**
+ * Validates the environment without throwing; errors are fatal, warnings are not
+ */
+export function validateEnvironment(env: Environment = process.env): ConfigValidationResult {
+  const { values, errors } = resolveSecretFiles(env);
+  const warnings: string[] = [];
+
+  const result = EnvironmentSchema.safeParse(values);
+  if (!result.success) {
+    errors.push(...result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`));
+  }
+  if (errors.length > 0 || !result.success) {
+    return { isValid: false, errors, warnings, config: null };
+  }
+
+  const config = toAppConfig(result.data);
+  if (!config.ipdataApiKey) {
+    warnings.push('IPDATA_API_KEY is recommended for geolocation enrichment');
+  }
+  if (!config.tenants.rawConfig && !config.facebook.testEventCode) {
+    warnings.push('FACEBOOK_TEST_EVENT_CODE is recommended for testing');
+  }
+  if (!config.webhooks.shopifySecret) {
+    warnings.push('SHOPIFY_WEBHOOK_SECRET is required to receive Shopify webhooks');
+  }
+  if (!config.queueAdminToken) {
+    warnings.push('QUEUE_ADMIN_TOKEN is required to use the /api/queue endpoints');
+  }
+
+  return { isValid: true, errors: [], warnings, config };
+}
+
+/**
+ * Returns the validated configuration (loaded once). Throws when the
+ * environment is invalid, so a misconfigured server fails loudly.
+ */
+export function getConfig(): AppConfig {
+  if (!appConfig) {
+    const validation = validateEnvironment();
+    if (!validation.isValid || !validation.config) {
+      throw new Error(`Invalid configuration: ${validation.errors.join('; ')}`);
+    }
+    for (const warning of validation.warnings) {
+      console.warn(`[${new Date().toISOString()}] [CONFIG] ⚠️ ${warning}`);
+    }
+    appConfig = validation.config;
+  }
+  return appConfig;
+}
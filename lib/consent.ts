@@ -0,0 +1,251 @@
+/**
+ * CONSENT (LGPD / GDPR / CCPA)
+ *
+ * Decides, per request, whether an event may be sent with personal data. The
+ * visitor's consent is read from:
+ *
+ * 1. The request body: { "consent": { "marketing": true, "analytics": true, "sale_of_data": false } }
+ *    (booleans, "granted"/"denied" or the "yes"/"no" of Shopify's currentVisitorConsent())
+ * 2. Shopify's _tracking_consent cookie (Customer Privacy API)
+ * 3. CONSENT_DEFAULT when neither is present
+ *
+ * Server-to-server events (order webhooks, sent with serverToServer) are not
+ * checked: the platform request carries no visitor consent, so CONSENT_DEFAULT
+ * would drop or strip every server-only Purchase/Refund. They are reported
+ * with rule not_enforced and source server_to_server; META_LDU=always still applies.
+ *
+ * Without marketing consent, CONSENT_MODE=strip sends the event without PII
+ * (hashed identifiers, IP, geo, fbp/fbc) and CONSENT_MODE=drop does not send it.
+ * META_LDU adds Meta's Limited Data Use flag (data_processing_options).
+ * Tenants can override every setting with `consent` (lib/tenants.ts).
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import type { ConsentPolicyConfig, TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ConsentMode = 'off' | 'strip' | 'drop';
+export type LduMode = 'off' | 'opt_out' | 'always';
+export type ConsentSource = 'body' | 'shopify_cookie' | 'default' | 'server_to_server';
+
+// not_enforced: CONSENT_MODE=off; granted: sent as usual; stripped: sent without PII; dropped: not sent
+export type ConsentRule = 'not_enforced' | 'granted' | 'stripped' | 'dropped';
+
+export interface ConsentSignal {
+  marketing?: boolean;
+  analytics?: boolean;
+  sale_of_data?: boolean;
+  source: ConsentSource;
+}
+
+export interface ConsentDecision {
+  rule: ConsentRule;
+  source: ConsentSource;
+  marketing?: boolean;
+  analytics?: boolean;
+  sale_of_data?: boolean;
+  ldu: boolean;
+}
+
+export interface LimitedDataUseOptions {
+  data_processing_options: string[];
+  data_processing_options_country: number;
+  data_processing_options_state: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const CONSENT_MODES: ConsentMode[] = ['off', 'strip', 'drop'];
+const LDU_MODES: LduMode[] = ['off', 'opt_out', 'always'];
+
+const rawConsentMode = (process.env.CONSENT_MODE || 'off').toLowerCase() as ConsentMode;
+const CONSENT_MODE: ConsentMode = CONSENT_MODES.includes(rawConsentMode) ? rawConsentMode : 'off';
+
+const CONSENT_DEFAULT_GRANTED = (process.env.CONSENT_DEFAULT || 'granted').toLowerCase() !== 'denied';
+
+const rawLduMode = (process.env.META_LDU || 'off').toLowerCase() as LduMode;
+const META_LDU: LduMode = LDU_MODES.includes(rawLduMode) ? rawLduMode : 'off';
+
+const META_LDU_COUNTRY = Number(process.env.META_LDU_COUNTRY) || 0;
+const META_LDU_STATE = Number(process.env.META_LDU_STATE) || 0;
+
+// Cookie written by Shopify's Customer Privacy API
+const SHOPIFY_CONSENT_COOKIE = '_tracking_consent';
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const ConsentValueSchema = z.union([
+  z.boolean(),
+  z.enum(['granted', 'denied', 'yes', 'no', '1', '0', '']),
+]);
+
+export const ConsentBodySchema = z.object({
+  marketing: ConsentValueSchema.optional(),
+  analytics: ConsentValueSchema.optional(),
+  sale_of_data: ConsentValueSchema.optional(),
+});
+
+// Fields of Shopify's _tracking_consent cookie that are read; anything else is ignored
+const ShopifyConsentCookieSchema = z.object({
+  con: z.object({
+    CMP: z.object({ m: z.unknown(), a: z.unknown(), s: z.unknown() }).partial().optional().catch(undefined),
+    GDPR: z.unknown().optional(),
+  }).optional(),
+});
+
+// =============================================================================
+// SIGNALS
+// =============================================================================
+
+const requestConsentSignals = new WeakMap<NextRequest, ConsentSignal>();
+
+function toConsentBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'granted' || value === 'yes' || value === '1') return true;
+  if (value === 'denied' || value === 'no' || value === '0') return false;
+  return undefined;
+}
+
+/**
+ * Parses Shopify's _tracking_consent cookie. Current versions hold
+ * con.CMP = { m: marketing, a: analytics, s: sale of data } with "1"/"0"/"";
+ * older ones a single con.GDPR flag.
+ */
+export function parseShopifyConsentCookie(value: string | undefined): ConsentSignal | null {
+  if (!value) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(decodeURIComponent(value));
+  } catch {
+    return null;
+  }
+  const parsed = ShopifyConsentCookieSchema.safeParse(raw);
+  if (!parsed.success) return null;
+
+  const cmp = parsed.data.con?.CMP;
+  if (cmp) {
+    return {
+      marketing: toConsentBoolean(cmp.m),
+      analytics: toConsentBoolean(cmp.a),
+      sale_of_data: toConsentBoolean(cmp.s),
+      source: 'shopify_cookie',
+    };
+  }
+
+  const gdpr = toConsentBoolean(parsed.data.con?.GDPR);
+  if (gdpr !== undefined) {
+    return { marketing: gdpr, analytics: gdpr, source: 'shopify_cookie' };
+  }
+  return null;
+}
+
+/**
+ * Stores the consent sent in the request body so sendServerEvent and the
+ * first-party cookies can apply it. Invalid values are ignored.
+ */
+export function recordRequestConsent(request: NextRequest, rawConsent: unknown): void {
+  if (rawConsent === undefined || rawConsent === null) return;
+
+  const result = ConsentBodySchema.safeParse(rawConsent);
+  if (!result.success) {
+    console.warn(`[${new Date().toISOString()}] [CONSENT] ⚠️ Ignoring invalid consent in request body:`, result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`));
+    return;
+  }
+
+  requestConsentSignals.set(request, {
+    marketing: toConsentBoolean(result.data.marketing),
+    analytics: toConsentBoolean(result.data.analytics),
+    sale_of_data: toConsentBoolean(result.data.sale_of_data),
+    source: 'body',
+  });
+}
+
+/**
+ * Consent signal of a request: body, then Shopify cookie, then none
+ */
+export function getRequestConsent(request: NextRequest): ConsentSignal {
+  return requestConsentSignals.get(request)
+    || parseShopifyConsentCookie(request.cookies.get(SHOPIFY_CONSENT_COOKIE)?.value)
+    || { source: 'default' };
+}
+
+// =============================================================================
+// DECISION
+// =============================================================================
+
+function getConsentPolicy(tenant: TenantConfig | null | undefined): Required<ConsentPolicyConfig> {
+  const overrides = tenant?.consent || {};
+  return {
+    mode: overrides.mode || CONSENT_MODE,
+    default: overrides.default || (CONSENT_DEFAULT_GRANTED ? 'granted' : 'denied'),
+    ldu: overrides.ldu || META_LDU,
+    lduCountry: overrides.lduCountry ?? META_LDU_COUNTRY,
+    lduState: overrides.lduState ?? META_LDU_STATE,
+  };
+}
+
+/**
+ * Applies the tenant's consent policy to the request's consent signal.
+ * serverToServer exempts events whose request does not come from the visitor (webhooks).
+ */
+export function evaluateConsent(
+  request: NextRequest,
+  tenant: TenantConfig | null | undefined,
+  options: { serverToServer?: boolean } = {}
+): ConsentDecision {
+  const policy = getConsentPolicy(tenant);
+  if (options.serverToServer) {
+    return { rule: 'not_enforced', source: 'server_to_server', ldu: policy.ldu === 'always' };
+  }
+
+  const signal = getRequestConsent(request);
+  const marketing = signal.marketing ?? (policy.default === 'granted');
+
+  let rule: ConsentRule;
+  if (policy.mode === 'off') {
+    rule = 'not_enforced';
+  } else if (marketing) {
+    rule = 'granted';
+  } else {
+    rule = policy.mode === 'drop' ? 'dropped' : 'stripped';
+  }
+
+  return {
+    rule,
+    source: signal.source,
+    ...(signal.marketing !== undefined && { marketing: signal.marketing }),
+    ...(signal.analytics !== undefined && { analytics: signal.analytics }),
+    ...(signal.sale_of_data !== undefined && { sale_of_data: signal.sale_of_data }),
+    ldu: policy.ldu === 'always' || (policy.ldu === 'opt_out' && signal.sale_of_data === false),
+  };
+}
+
+/**
+ * Returns true when the decision allows personal data and identifiers (incl. cookies)
+ */
+export function allowsPersonalData(decision: ConsentDecision): boolean {
+  return decision.rule === 'not_enforced' || decision.rule === 'granted';
+}
+
+/**
+ * Meta data_processing_options fields for events under Limited Data Use
+ */
+export function getLimitedDataUseOptions(tenant: TenantConfig | null | undefined): LimitedDataUseOptions {
+  const policy = getConsentPolicy(tenant);
+  return {
+    data_processing_options: ['LDU'],
+    data_processing_options_country: policy.lduCountry,
+    data_processing_options_state: policy.lduState,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * CORS
+ *
+ * Shared CORS policy of the browser-facing /api/track/* routes. The request
+ * Origin is echoed back (with Vary: Origin) only when it matches one of the
+ * allowed origins or wildcard patterns of the request's tenant (lib/origins.ts);
+ * other origins get no Access-Control-Allow-Origin at all.
+ *
+ * Browsers enforce CORS only on the response, so a cross-origin POST would
+ * still reach Meta. rejectDisallowedOrigin() refuses those requests on the
+ * server. Requests without an Origin header (server-to-server, webhooks) are
+ * not affected.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirstPartyCookieCorsHeaders } from './first-party-cookies';
+import { normalizeOrigin } from './origins';
+import { isTenantOriginAllowed, resolveTenant } from './tenants';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const CORS_ALLOWED_METHODS = 'POST, OPTIONS';
+// X-Capi-* carry the request signature (lib/request-signing.ts)
+export const CORS_ALLOWED_HEADERS = 'Content-Type, Authorization, X-Api-Key, X-Capi-Token, X-Capi-Timestamp, X-Capi-Nonce, X-Capi-Signature';
+
+// Browsers cache the preflight for this many seconds
+const CORS_MAX_AGE_SECONDS = 86400;
+
+// =============================================================================
+// HEADERS
+// =============================================================================
+
+/**
+ * Returns true when the request has no Origin or its Origin is allowed for the tenant
+ */
+export function isRequestOriginAllowed(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  return !origin || isTenantOriginAllowed(resolveTenant(request), origin);
+}
+
+/**
+ * CORS headers for every response of a tracking route (preflight included)
+ */
+export function getCorsHeaders(request: NextRequest): Record<string, string> {
+  const origin = request.headers.get('origin');
+  const allowOrigin = origin && isTenantOriginAllowed(resolveTenant(request), origin);
+
+  return {
+    ...(allowOrigin && { 'Access-Control-Allow-Origin': normalizeOrigin(origin) }),
+    'Vary': 'Origin',
+    'Access-Control-Allow-Methods': CORS_ALLOWED_METHODS,
+    'Access-Control-Allow-Headers': CORS_ALLOWED_HEADERS,
+    'Access-Control-Max-Age': String(CORS_MAX_AGE_SECONDS),
+    ...(allowOrigin && getFirstPartyCookieCorsHeaders(request)),
+  };
+}
+
+/**
+ * Answers a CORS preflight request
+ */
+export function handleCorsPreflight(request: NextRequest, logTag: string): NextResponse {
+  const origin = request.headers.get('origin');
+  console.log(`[${new Date().toISOString()}] [${logTag}] [OPTIONS] Received preflight request from origin: ${origin}`);
+  if (!isRequestOriginAllowed(request)) {
+    console.warn(`[${new Date().toISOString()}] [${logTag}] [OPTIONS] 🚫 Origin not allowed: ${origin}`);
+  }
+  return NextResponse.json({}, { status: 200, headers: getCorsHeaders(request) });
+}
+
+/**
+ * Returns a 403 response for a request from an origin the tenant does not
+ * allow, or null when the request may proceed
+ */
+export function rejectDisallowedOrigin(request: NextRequest, logTag: string): NextResponse | null {
+  if (isRequestOriginAllowed(request)) return null;
+
+  const origin = request.headers.get('origin');
+  console.warn(`[${new Date().toISOString()}] [${logTag}] 🚫 Origin not allowed: ${origin}. Request rejected.`);
+  return NextResponse.json({
+    message: 'Origin not allowed',
+    success: false
+  }, { status: 403, headers: getCorsHeaders(request) });
+}
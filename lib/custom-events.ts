@@ -0,0 +1,314 @@
+/**
+ * CUSTOM EVENTS
+ *
+ * Catalogue of the custom events (names Meta does not define, e.g.
+ * SizeGuideOpened) accepted by POST /api/track/custom/<eventName>. Every
+ * event has a Zod schema for its customData; names that are not in the
+ * tenant's catalogue are rejected.
+ *
+ * The catalogue of a tenant is built from, later layers winning per event:
+ *
+ * 1. BUILT_IN_CUSTOM_EVENTS (TS schemas, every tenant)
+ * 2. CUSTOM_EVENTS_FILE "*" section (every tenant)
+ * 3. CUSTOM_EVENTS_FILE "<tenantId>" section
+ * 4. setCustomEvents(tenantId, catalogue), e.g. loaded from a database
+ *
+ * CUSTOM_EVENTS_FILE is a JSON file of declarative definitions:
+ *
+ *   {
+ *     "*": { "ProductQuickView": { "fields": { "list_name": { "type": "string" } } } },
+ *     "store-a": {
+ *       "BundleBuilt": {
+ *         "fields": {
+ *           "bundle_id": { "type": "string", "required": true },
+ *           "num_items": { "type": "integer", "required": true, "min": 2 }
+ *         }
+ *       }
+ *     }
+ *   }
+ *
+ * Field types: string, number, integer, boolean, string_array (with optional
+ * required, enum, min and max). value, currency, content_ids, content_name,
+ * content_category and content_type are accepted by every custom event;
+ * unknown keys are dropped. The file is checked for changes every
+ * CUSTOM_EVENTS_RELOAD_INTERVAL_MS (30s) and reloaded without a restart.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { z } from 'zod';
+import { CurrencySchema } from './ecommerce-types';
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+// Meta allows letters, digits and "_" in custom event names, up to 40 characters
+export const CustomEventNameSchema = z.string().regex(
+  /^[A-Za-z][A-Za-z0-9_]{0,39}$/,
+  'Custom event names must start with a letter and contain up to 40 letters, digits or "_"'
+);
+
+export const CustomEventFieldSchema = z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'string_array']),
+  required: z.boolean().default(false),
+  // Allowed values of a string field
+  enum: z.array(z.string().min(1)).min(1).optional(),
+  // Bounds of a number, length of a string or size of a string_array
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const CustomEventDefinitionSchema = z.object({
+  description: z.string().optional(),
+  fields: z.record(
+    z.string().regex(/^[a-z][a-z0-9_]*$/, 'Field names must be snake_case'),
+    CustomEventFieldSchema
+  ).default({}),
+});
+
+// Event name -> definition
+export const CustomEventCatalogueSchema = z.record(CustomEventNameSchema, CustomEventDefinitionSchema);
+
+// Tenant id (or "*" for every tenant) -> catalogue
+export const CustomEventsFileSchema = z.record(z.string().min(1), CustomEventCatalogueSchema);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CustomEventField = z.infer<typeof CustomEventFieldSchema>;
+export type CustomEventDefinition = z.infer<typeof CustomEventDefinitionSchema>;
+export type CustomEventCatalogue = z.input<typeof CustomEventCatalogueSchema>;
+export type CustomEventSchema = z.ZodType<Record<string, unknown>, z.ZodTypeDef, unknown>;
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const CUSTOM_EVENTS_FILE = process.env.CUSTOM_EVENTS_FILE;
+const CUSTOM_EVENTS_RELOAD_INTERVAL_MS = Number(process.env.CUSTOM_EVENTS_RELOAD_INTERVAL_MS) || 30 * 1000;
+
+const ALL_TENANTS = '*';
+
+// Standard events have their own routes and schemas (lib/ecommerce-types.ts)
+const META_STANDARD_EVENTS = [
+  'AddPaymentInfo', 'AddToCart', 'AddToWishlist', 'CompleteRegistration', 'Contact',
+  'CustomizeProduct', 'Donate', 'FindLocation', 'InitiateCheckout', 'Lead', 'PageView',
+  'Purchase', 'Schedule', 'Search', 'StartTrial', 'SubmitApplication', 'Subscribe', 'ViewContent',
+];
+
+// =============================================================================
+// SCHEMA BUILDERS
+// =============================================================================
+
+// Fields every custom event may carry (used by Meta custom conversions)
+const CustomEventBaseSchema = z.object({
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+  content_ids: z.array(z.string().trim().min(1, 'Content ID must be a non-empty string')).optional(),
+  content_name: z.string().trim().optional(),
+  content_category: z.string().trim().optional(),
+  content_type: z.enum(['product', 'product_group']).optional(),
+});
+
+/**
+ * customData schema of a custom event: the base fields plus its own
+ */
+function defineCustomEvent(shape: z.ZodRawShape): CustomEventSchema {
+  return CustomEventBaseSchema.extend(shape).refine(data => data.value === undefined || data.currency !== undefined, {
+    message: 'Currency is required when value is provided',
+    path: ['currency'],
+    params: { code: 'currency_required' },
+  });
+}
+
+function buildFieldSchema(field: CustomEventField): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (field.type) {
+    case 'string': {
+      if (field.enum) {
+        schema = z.enum(field.enum as [string, ...string[]]);
+        break;
+      }
+      let text = z.string().trim();
+      if (field.min !== undefined) text = text.min(field.min);
+      if (field.max !== undefined) text = text.max(field.max);
+      schema = text;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      let number = field.type === 'integer' ? z.number().int() : z.number();
+      if (field.min !== undefined) number = number.min(field.min);
+      if (field.max !== undefined) number = number.max(field.max);
+      schema = number;
+      break;
+    }
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    case 'string_array': {
+      let list = z.array(z.string().trim().min(1));
+      if (field.min !== undefined) list = list.min(field.min);
+      if (field.max !== undefined) list = list.max(field.max);
+      schema = list;
+      break;
+    }
+  }
+  return field.required ? schema : schema.optional();
+}
+
+/**
+ * Zod schema of a declarative (JSON) definition
+ */
+export function buildCustomEventSchema(definition: CustomEventDefinition): CustomEventSchema {
+  const shape: z.ZodRawShape = {};
+  Object.keys(definition.fields).forEach(name => {
+    shape[name] = buildFieldSchema(definition.fields[name]);
+  });
+  return defineCustomEvent(shape);
+}
+
+/**
+ * Validates a catalogue and builds the schema of each event
+ */
+function compileCatalogue(rawCatalogue: unknown, source: string): Record<string, CustomEventSchema> {
+  const result = CustomEventCatalogueSchema.safeParse(rawCatalogue);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+    throw new Error(`Invalid custom event configuration (${source}): ${issues}`);
+  }
+
+  const schemas: Record<string, CustomEventSchema> = {};
+  Object.keys(result.data).forEach(eventName => {
+    if (META_STANDARD_EVENTS.includes(eventName)) {
+      throw new Error(`Invalid custom event configuration (${source}): ${eventName} is a standard event`);
+    }
+    schemas[eventName] = buildCustomEventSchema(result.data[eventName]);
+  });
+  return schemas;
+}
+
+// =============================================================================
+// BUILT-IN CATALOGUE
+// =============================================================================
+
+export const BUILT_IN_CUSTOM_EVENTS: Record<string, CustomEventSchema> = {
+  // Size chart opened on a product page
+  SizeGuideOpened: defineCustomEvent({
+    size_chart_id: z.string().trim().optional(),
+    selected_size: z.string().trim().optional(),
+    source: z.string().trim().optional(), // e.g. product_page, quick_view
+  }),
+  // Product preview opened from a collection or search grid
+  ProductQuickView: defineCustomEvent({
+    content_ids: z.array(z.string().trim().min(1, 'Content ID must be a non-empty string')).min(1, 'At least one content ID is required'),
+    list_name: z.string().trim().optional(),
+    position: z.number().int().nonnegative().optional(),
+  }),
+  // Bundle assembled in a bundle builder, before it is added to the cart
+  BundleBuilt: defineCustomEvent({
+    bundle_id: z.string().trim().optional(),
+    content_ids: z.array(z.string().trim().min(1, 'Content ID must be a non-empty string')).min(1, 'At least one content ID is required'),
+    num_items: z.number().int().positive('Number of items must be positive'),
+  }),
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+let fileCatalogues: Record<string, Record<string, CustomEventSchema>> = {};
+let fileModifiedAt: number | null = null;
+let fileCheckedAt = 0;
+const tenantCatalogues = new Map<string, Record<string, CustomEventSchema>>();
+
+function readCustomEventsFile(path: string): Record<string, Record<string, CustomEventSchema>> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid custom event configuration: ${path} could not be read (${(error as Error).message})`);
+  }
+  const result = CustomEventsFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+    throw new Error(`Invalid custom event configuration: ${issues}`);
+  }
+
+  const catalogues: Record<string, Record<string, CustomEventSchema>> = {};
+  Object.keys(result.data).forEach(tenantId => {
+    catalogues[tenantId] = compileCatalogue(result.data[tenantId], `${path}, ${tenantId}`);
+  });
+  return catalogues;
+}
+
+/**
+ * Loads CUSTOM_EVENTS_FILE on first use and again when it changed. A file
+ * that breaks after a reload is logged and the previous catalogue stays active.
+ */
+function refreshFileCatalogues(now: number = Date.now()): void {
+  if (!CUSTOM_EVENTS_FILE) return;
+  if (fileModifiedAt !== null && now - fileCheckedAt < CUSTOM_EVENTS_RELOAD_INTERVAL_MS) return;
+  fileCheckedAt = now;
+
+  let modifiedAt: number;
+  try {
+    modifiedAt = statSync(CUSTOM_EVENTS_FILE).mtimeMs;
+  } catch (error) {
+    if (fileModifiedAt === null) {
+      throw new Error(`Invalid custom event configuration: ${CUSTOM_EVENTS_FILE} could not be read (${(error as Error).message})`);
+    }
+    console.error(`[${new Date().toISOString()}] [CUSTOM_EVENTS] ❌ ${CUSTOM_EVENTS_FILE} is not readable, keeping the loaded catalogue:`, error);
+    return;
+  }
+  if (modifiedAt === fileModifiedAt) return;
+
+  try {
+    fileCatalogues = readCustomEventsFile(CUSTOM_EVENTS_FILE);
+  } catch (error) {
+    if (fileModifiedAt === null) throw error;
+    console.error(`[${new Date().toISOString()}] [CUSTOM_EVENTS] ❌ Reload of ${CUSTOM_EVENTS_FILE} failed, keeping the loaded catalogue:`, error);
+    fileModifiedAt = modifiedAt;
+    return;
+  }
+  console.log(`[${new Date().toISOString()}] [CUSTOM_EVENTS] 📚 ${fileModifiedAt === null ? 'Loaded' : 'Reloaded'} ${CUSTOM_EVENTS_FILE}: ${Object.keys(fileCatalogues).map(tenantId => `${tenantId} (${Object.keys(fileCatalogues[tenantId]).length})`).join(', ') || 'no catalogues'}`);
+  fileModifiedAt = modifiedAt;
+}
+
+/**
+ * Replaces the custom events of one tenant (on top of the built-in and file
+ * catalogues); null removes them again
+ */
+export function setCustomEvents(tenantId: string, catalogue: CustomEventCatalogue | null): void {
+  if (catalogue === null) {
+    tenantCatalogues.delete(tenantId);
+    return;
+  }
+  tenantCatalogues.set(tenantId, compileCatalogue(catalogue, tenantId));
+}
+
+/**
+ * Custom events of a tenant, event name -> customData schema
+ */
+export function getCustomEventCatalogue(tenantId: string): Record<string, CustomEventSchema> {
+  refreshFileCatalogues();
+  return {
+    ...BUILT_IN_CUSTOM_EVENTS,
+    ...fileCatalogues[ALL_TENANTS],
+    ...fileCatalogues[tenantId],
+    ...tenantCatalogues.get(tenantId),
+  };
+}
+
+/**
+ * customData schema of a custom event, or null when the tenant does not allow it
+ */
+export function getCustomEventSchema(tenantId: string, eventName: string): CustomEventSchema | null {
+  if (!CustomEventNameSchema.safeParse(eventName).success) return null;
+  const catalogue = getCustomEventCatalogue(tenantId);
+  return Object.prototype.hasOwnProperty.call(catalogue, eventName) ? catalogue[eventName] : null;
+}
@@ -0,0 +1,129 @@
+/**
+ * DESTINATION ADAPTERS
+ *
+ * Ad platforms other than Meta that receive the same events as the Conversions
+ * API (TikTok, GA4, Google Ads, Pinterest, Snapchat). An adapter translates
+ * the built Meta payload (hashed user_data, custom_data, event_id) into its
+ * platform's format and reports one DestinationResult per event.
+ * sendServerEvent and sendServerEventBatch deliver to the tenant's Meta
+ * datasets and to every configured adapter in parallel.
+ *
+ * Every adapter reads its API base URL from an env var (e.g. PINTEREST_API_BASE_URL)
+ * so it can be pointed at a local mock HTTP server.
+ *
+ * Adapter deliveries are not queued for retry and do not change the top-level
+ * success of an event; their outcome is only reported in `destinations`.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { NextRequest } from 'next/server';
+import type { DestinationResult, ServerEvent } from './fbevents';
+import type { TenantConfig } from './tenants';
+import { ga4Adapter } from './ga4-events';
+import { googleAdsAdapter } from './google-ads-conversions';
+import { pinterestAdapter } from './pinterest-events';
+import { snapchatAdapter } from './snapchat-events';
+import { tiktokAdapter } from './tiktok-events';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AdapterEvent {
+  payload: ServerEvent; // Built Meta payload, user_data already hashed
+  request: NextRequest;
+  urlParameters?: { [key: string]: string }; // Raw URL parameters, including click IDs (ttclid, gclid...)
+}
+
+export interface DestinationAdapter {
+  // Reported as `destination` in the results, e.g. "tiktok"
+  name: string;
+  // Account the tenant sends to (e.g. the TikTok pixel code), null when not configured
+  getDestinationId(tenant: TenantConfig): string | null;
+  // Event-name allowlist check, only called for configured tenants
+  acceptsEvent(tenant: TenantConfig, eventName: string): boolean;
+  // Must resolve with exactly one result per event, in the same order
+  send(tenant: TenantConfig, events: AdapterEvent[]): Promise<DestinationResult[]>;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+// Each adapter is switched on per tenant by its block in the tenant config
+const destinationAdapters: DestinationAdapter[] = [
+  tiktokAdapter,
+  ga4Adapter,
+  googleAdsAdapter,
+  pinterestAdapter,
+  snapchatAdapter,
+];
+
+/**
+ * Adds an adapter, replacing any adapter registered under the same name
+ */
+export function registerDestinationAdapter(adapter: DestinationAdapter): void {
+  const index = destinationAdapters.findIndex(existing => existing.name === adapter.name);
+  if (index === -1) {
+    destinationAdapters.push(adapter);
+  } else {
+    destinationAdapters[index] = adapter;
+  }
+}
+
+/**
+ * Returns the registered adapters, in delivery order
+ */
+export function getDestinationAdapters(): DestinationAdapter[] {
+  return [...destinationAdapters];
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+/**
+ * Sends the events to every adapter configured for the tenant. Returns, for
+ * each input event, the results of the adapters that accepted it (in
+ * registration order). Never rejects: adapter errors become failed results.
+ */
+export async function sendToDestinationAdapters(
+  tenant: TenantConfig,
+  events: AdapterEvent[]
+): Promise<DestinationResult[][]> {
+  const perAdapter = await Promise.all(destinationAdapters.map(async adapter => {
+    const destinationId = adapter.getDestinationId(tenant);
+    if (!destinationId) return null;
+
+    const indexes = events
+      .map((event, index) => (adapter.acceptsEvent(tenant, event.payload.event_name) ? index : -1))
+      .filter(index => index !== -1);
+    if (indexes.length === 0) return null;
+
+    try {
+      const results = await adapter.send(tenant, indexes.map(index => events[index]));
+      return { indexes, results };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[DESTINATIONS] Adapter ${adapter.name} failed for tenant ${tenant.id}:`, message);
+      const results: DestinationResult[] = indexes.map(() => ({
+        destination: adapter.name,
+        dataset_id: destinationId,
+        success: false,
+        error: message,
+      }));
+      return { indexes, results };
+    }
+  }));
+
+  const resultsByEvent: DestinationResult[][] = events.map(() => []);
+  for (const adapterResults of perAdapter) {
+    if (!adapterResults) continue;
+    adapterResults.indexes.forEach((eventIndex, position) => {
+      resultsByEvent[eventIndex].push(adapterResults.results[position]);
+    });
+  }
+  return resultsByEvent;
+}
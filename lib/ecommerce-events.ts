@@ -11,13 +11,22 @@
 
 import { NextRequest } from 'next/server';
 import { sendServerEvent } from './fbevents';
-import type { UserData } from './fbevents';
+import { validateEnvironment } from './config';
+import type { UserData, SendServerEventOptions } from './fbevents';
 import {
   EcommerceViewContentData,
   EcommerceAddToCartData,
   EcommerceInitiateCheckoutData,
   EcommerceAddToWishlistData,
   EcommercePurchaseData,
+  EcommerceRefundData,
+  EcommerceCustomizeProductData,
+  EcommerceContactData,
+  EcommerceFindLocationData,
+  EcommerceScheduleData,
+  EcommerceStartTrialData,
+  EcommerceSubscribeData,
+  EcommerceDonateData,
   BaseProduct,
   ProductSummary,
   CartSummary,
@@ -143,6 +152,193 @@ export async function sendEcommercePurchase(
   );
 }
 
+/**
+ * Event name used for refund/cancellation adjustments (custom event, configurable)
+ */
+export function getRefundEventName(): string {
+  return process.env.REFUND_EVENT_NAME || 'Refund';
+}
+
+/**
+ * Sends a negative-value Refund event (refunds and cancellations) so revenue
+ * reported to Facebook reflects money that was actually kept
+ */
+export async function sendEcommerceRefund(
+  request: NextRequest,
+  userData: UserData,
+  refundData: EcommerceRefundData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  eventTime?: number,
+  options?: SendServerEventOptions
+) {
+  return await sendServerEvent(
+    getRefundEventName(),
+    request,
+    userData,
+    refundData,
+    eventSourceUrl,
+    eventId,
+    undefined,
+    eventTime,
+    options
+  );
+}
+
+/**
+ * Sends CustomizeProduct event when a product is configured (color, size, engraving...)
+ */
+export async function sendEcommerceCustomizeProduct(
+  request: NextRequest,
+  userData: UserData,
+  customizationData: EcommerceCustomizeProductData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'CustomizeProduct',
+    request,
+    userData,
+    customizationData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
+/**
+ * Sends Contact event when a customer reaches out (form, chat, phone, WhatsApp)
+ */
+export async function sendEcommerceContact(
+  request: NextRequest,
+  userData: UserData,
+  contactData: EcommerceContactData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'Contact',
+    request,
+    userData,
+    contactData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
+/**
+ * Sends FindLocation event for store locator searches
+ */
+export async function sendEcommerceFindLocation(
+  request: NextRequest,
+  userData: UserData,
+  locationData: EcommerceFindLocationData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'FindLocation',
+    request,
+    userData,
+    locationData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
+/**
+ * Sends Schedule event when an appointment is booked
+ */
+export async function sendEcommerceSchedule(
+  request: NextRequest,
+  userData: UserData,
+  scheduleData: EcommerceScheduleData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'Schedule',
+    request,
+    userData,
+    scheduleData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
+/**
+ * Sends StartTrial event when a subscription trial starts (predicted_ltv required)
+ */
+export async function sendEcommerceStartTrial(
+  request: NextRequest,
+  userData: UserData,
+  trialData: EcommerceStartTrialData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'StartTrial',
+    request,
+    userData,
+    trialData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
+/**
+ * Sends Subscribe event for the first payment of a subscription (predicted_ltv required)
+ */
+export async function sendEcommerceSubscribe(
+  request: NextRequest,
+  userData: UserData,
+  subscriptionData: EcommerceSubscribeData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'Subscribe',
+    request,
+    userData,
+    subscriptionData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
+/**
+ * Sends Donate event for donations
+ */
+export async function sendEcommerceDonate(
+  request: NextRequest,
+  userData: UserData,
+  donationData: EcommerceDonateData,
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string }
+) {
+  return await sendServerEvent(
+    'Donate',
+    request,
+    userData,
+    donationData,
+    eventSourceUrl,
+    eventId,
+    urlParameters
+  );
+}
+
 // =============================================================================
 // E-COMMERCE BUSINESS LOGIC HELPERS
 // =============================================================================
@@ -432,39 +628,15 @@ export function transformCartToFacebookFormat(
 
 /**
  * Validates required environment variables for e-commerce tracking
+ * (see validateEnvironment in lib/config.ts)
  */
 export function validateEcommerceEnvironment(): {
   isValid: boolean;
   errors: string[];
   warnings: string[];
 } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Required variables
-  if (!process.env.FACEBOOK_DATASET_ID) {
-    errors.push('FACEBOOK_DATASET_ID is required');
-  }
-  if (!process.env.FACEBOOK_ACCESS_TOKEN) {
-    errors.push('FACEBOOK_ACCESS_TOKEN is required');
-  }
-  if (!process.env.ALLOWED_ORIGIN) {
-    errors.push('ALLOWED_ORIGIN is required for CORS');
-  }
-
-  // Recommended variables
-  if (!process.env.IPDATA_API_KEY) {
-    warnings.push('IPDATA_API_KEY is recommended for geolocation enrichment');
-  }
-  if (!process.env.FACEBOOK_TEST_EVENT_CODE) {
-    warnings.push('FACEBOOK_TEST_EVENT_CODE is recommended for testing');
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings,
-  };
+  const { isValid, errors, warnings } = validateEnvironment();
+  return { isValid, errors, warnings };
 }
 
 /**
@@ -519,6 +691,8 @@ export function createEcommerceDebugInfo(
   environment: any;
 } {
   const timestamp = new Date().toISOString();
+  const validation = validateEnvironment();
+  const config = validation.config;
   
   let summary = {};
   if (eventData.contents) {
@@ -537,11 +711,11 @@ export function createEcommerceDebugInfo(
     eventType,
     eventId,
     summary,
-    validation: validateEcommerceEnvironment(),
+    validation: { isValid: validation.isValid, errors: validation.errors, warnings: validation.warnings },
     environment: {
-      hasIpDataKey: !!process.env.IPDATA_API_KEY,
-      hasTestCode: !!process.env.FACEBOOK_TEST_EVENT_CODE,
-      allowedOrigin: process.env.ALLOWED_ORIGIN,
+      hasIpDataKey: !!config?.ipdataApiKey,
+      hasTestCode: !!config?.facebook.testEventCode,
+      allowedOrigins: config?.allowedOrigins,
     },
   };
 }
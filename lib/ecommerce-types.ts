@@ -38,6 +38,8 @@ export const PaymentMethodEnum = z.enum([
   'bank_transfer',
   'boleto',
   'pix',
+  'klarna',
+  'afterpay',
   'other'
 ]);
 
@@ -62,7 +64,8 @@ export const CustomerTypeEnum = z.enum([
   'new',
   'returning',
   'vip',
-  'wholesale'
+  'wholesale',
+  'guest'
 ]);
 
 export const OrderSourceEnum = z.enum([
@@ -97,123 +100,260 @@ export const UserIntentEnum = z.enum([
   'later_purchase'
 ]);
 
+export const LeadTypeEnum = z.enum([
+  'newsletter',
+  'popup',
+  'contact_form',
+  'quote_request',
+  'waitlist',
+  'back_in_stock',
+  'other'
+]);
+
+export const RegistrationMethodEnum = z.enum([
+  'email',
+  'phone',
+  'google',
+  'facebook',
+  'apple',
+  'shop_pay',
+  'other'
+]);
+
+export const ContactMethodEnum = z.enum([
+  'email',
+  'phone',
+  'chat',
+  'whatsapp',
+  'contact_form',
+  'other'
+]);
+
+export const BillingIntervalEnum = z.enum([
+  'day',
+  'week',
+  'month',
+  'year'
+]);
+
+export const DonationTypeEnum = z.enum([
+  'one_time',
+  'recurring'
+]);
+
+export const AdjustmentTypeEnum = z.enum([
+  'refund',
+  'cancellation',
+  'chargeback'
+]);
+
+// =============================================================================
+// SHARED FIELD SCHEMAS
+// =============================================================================
+
+// ISO 4217 code, sent upper-case
+export const CurrencySchema = z.string().trim().length(3, 'Currency must be a 3-letter code').toUpperCase();
+
+const ContentIdsSchema = z.array(z.string().trim().min(1, 'Content ID must be a non-empty string'));
+
+// content_type is always 'product' for e-commerce events, clients may omit it
+const ProductContentTypeSchema = z.literal('product').default('product');
+
 // =============================================================================
 // PRODUCT SCHEMAS
 // =============================================================================
 
 export const BaseProductSchema = z.object({
-  id: z.string().min(1, 'Product ID is required'),
+  id: z.string().trim().min(1, 'Product ID is required'),
   quantity: z.number().int().positive('Quantity must be a positive integer'),
   item_price: z.number().nonnegative('Item price must be non-negative'),
-  title: z.string().optional(),
-  category: z.string().optional(),
-  brand: z.string().optional(),
-  image_url: z.string().url().optional(),
+  title: z.string().trim().optional(),
+  category: z.string().trim().optional(),
+  brand: z.string().trim().optional(),
+  image_url: z.string().trim().url().optional(),
 });
 
 export const ViewContentProductSchema = BaseProductSchema.extend({
-  variant_id: z.string().optional(),
-  variant_name: z.string().optional(),
+  variant_id: z.string().trim().optional(),
+  variant_name: z.string().trim().optional(),
 });
 
 export const CartItemSchema = BaseProductSchema.extend({
-  variant: z.string().optional(),
+  variant: z.string().trim().optional(),
 });
 
 export const WishlistProductSchema = BaseProductSchema.extend({
   availability: AvailabilityEnum.optional(),
   condition: ConditionEnum.optional(),
-  variant_id: z.string().optional(),
+  variant_id: z.string().trim().optional(),
   rating: z.number().min(1).max(5).optional(),
 });
 
 export const PurchasedProductSchema = BaseProductSchema.extend({
-  variant_id: z.string().optional(),
-  variant_name: z.string().optional(),
-  sku: z.string().optional(),
+  variant_id: z.string().trim().optional(),
+  variant_name: z.string().trim().optional(),
+  sku: z.string().trim().optional(),
   original_price: z.number().nonnegative().optional(),
   discount_amount: z.number().nonnegative().optional(),
 });
 
+export const SearchResultProductSchema = BaseProductSchema.extend({
+  quantity: z.number().int().positive('Quantity must be a positive integer').optional(),
+  position: z.number().int().positive('Position must be a positive integer').optional(),
+  variant_id: z.string().trim().optional(),
+});
+
+// =============================================================================
+// CROSS-FIELD CHECKS
+// =============================================================================
+
+// Rounding tolerance when a value is compared with the total of its contents
+const VALUE_TOLERANCE = 0.01;
+
+interface ContentsLine {
+  quantity: number;
+  item_price: number;
+}
+
+function sumQuantities(contents: ContentsLine[]): number {
+  return contents.reduce((sum, item) => sum + item.quantity, 0);
+}
+
+function sumLineTotals(contents: ContentsLine[]): number {
+  return contents.reduce((sum, item) => sum + (item.item_price * item.quantity), 0);
+}
+
+/**
+ * Reports a total sent by the client that does not match the one calculated from contents
+ */
+function checkContentsTotal(
+  ctx: z.RefinementCtx,
+  field: string,
+  provided: number,
+  calculated: number,
+  tolerance: number = 0
+): void {
+  if (Math.abs(provided - calculated) <= tolerance) return;
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: [field],
+    message: `${field} (${provided}) doesn't match calculated total from contents (${Number(calculated.toFixed(2))})`,
+    params: { code: 'total_mismatch' },
+  });
+}
+
+/**
+ * Reports a predicted lifetime value below the first payment
+ */
+function checkPredictedLtv(ctx: z.RefinementCtx, predictedLtv: number, value: number | undefined): void {
+  if (value === undefined || predictedLtv >= value) return;
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: ['predicted_ltv'],
+    message: `predicted_ltv (${predictedLtv}) is below value (${value})`,
+    params: { code: 'below_value' },
+  });
+}
+
 // =============================================================================
 // EVENT DATA SCHEMAS
 // =============================================================================
 
+// PageView carries no custom data; unknown keys are dropped
+export const PageViewDataSchema = z.object({});
+
 export const ViewContentDataSchema = z.object({
-  content_ids: z.array(z.string()).min(1, 'At least one content ID is required'),
-  content_name: z.string().min(1, 'Content name is required'),
-  content_type: z.literal('product'),
+  content_ids: ContentIdsSchema.min(1, 'At least one content ID is required'),
+  content_name: z.string().trim().min(1, 'Content name is required'),
+  content_type: ProductContentTypeSchema,
   value: z.number().nonnegative('Value must be non-negative'),
-  currency: z.string().length(3, 'Currency must be a 3-letter code'),
-  content_category: z.string().optional(),
-  brand: z.string().optional(),
+  currency: CurrencySchema,
+  content_category: z.string().trim().optional(),
+  brand: z.string().trim().optional(),
   availability: AvailabilityEnum.optional(),
   condition: ConditionEnum.optional(),
   contents: z.array(ViewContentProductSchema).optional(),
 });
 
+// value and quantity must match contents when a bundle is sent
 export const AddToCartDataSchema = z.object({
-  content_ids: z.array(z.string()).min(1, 'At least one content ID is required'),
-  content_name: z.string().min(1, 'Content name is required'),
-  content_type: z.literal('product'),
+  content_ids: ContentIdsSchema.min(1, 'At least one content ID is required'),
+  content_name: z.string().trim().min(1, 'Content name is required'),
+  content_type: ProductContentTypeSchema,
   value: z.number().positive('Value must be positive'),
-  currency: z.string().length(3, 'Currency must be a 3-letter code'),
+  currency: CurrencySchema,
   quantity: z.number().int().positive('Quantity must be a positive integer'),
-  content_category: z.string().optional(),
-  brand: z.string().optional(),
+  content_category: z.string().trim().optional(),
+  brand: z.string().trim().optional(),
   availability: AvailabilityEnum.optional(),
   condition: ConditionEnum.optional(),
   contents: z.array(ViewContentProductSchema).optional(),
-  cart_id: z.string().optional(),
-  product_group_id: z.string().optional(),
-  custom_label_0: z.string().optional(),
+  cart_id: z.string().trim().optional(),
+  product_group_id: z.string().trim().optional(),
+  custom_label_0: z.string().trim().optional(),
   predicted_ltv: z.number().nonnegative().optional(),
+}).superRefine((data, ctx) => {
+  if (!data.contents || data.contents.length === 0) return;
+  checkContentsTotal(ctx, 'value', data.value, sumLineTotals(data.contents), VALUE_TOLERANCE);
+  checkContentsTotal(ctx, 'quantity', data.quantity, sumQuantities(data.contents));
 });
 
+// content_ids default to the cart item IDs
 export const InitiateCheckoutDataSchema = z.object({
   contents: z.array(CartItemSchema).min(1, 'At least one cart item is required'),
   value: z.number().positive('Value must be positive'),
-  currency: z.string().length(3, 'Currency must be a 3-letter code'),
+  currency: CurrencySchema,
   num_items: z.number().int().positive('Number of items must be positive'),
-  content_ids: z.array(z.string()).optional(),
-  content_type: z.literal('product'),
+  content_ids: ContentIdsSchema.optional(),
+  content_type: ProductContentTypeSchema,
   shipping_cost: z.number().nonnegative().optional(),
   tax_amount: z.number().nonnegative().optional(),
   discount_amount: z.number().nonnegative().optional(),
-  coupon_code: z.string().optional(),
+  coupon_code: z.string().trim().optional(),
   delivery_category: DeliveryCategoryEnum.optional(),
-  cart_id: z.string().optional(),
+  cart_id: z.string().trim().optional(),
   checkout_step: z.number().int().positive().optional(),
   payment_available: z.array(z.string()).optional(),
-});
+}).superRefine((data, ctx) => {
+  checkContentsTotal(ctx, 'num_items', data.num_items, sumQuantities(data.contents));
+  checkContentsTotal(ctx, 'value', data.value, sumLineTotals(data.contents), VALUE_TOLERANCE);
+}).transform(data => ({
+  ...data,
+  content_ids: data.content_ids || data.contents.map(item => item.id),
+}));
 
 export const AddToWishlistDataSchema = z.object({
-  content_ids: z.array(z.string()).min(1, 'At least one content ID is required'),
-  content_name: z.string().min(1, 'Content name is required'),
-  content_type: z.literal('product'),
+  content_ids: ContentIdsSchema.min(1, 'At least one content ID is required'),
+  content_name: z.string().trim().min(1, 'Content name is required'),
+  content_type: ProductContentTypeSchema,
   value: z.number().nonnegative('Value must be non-negative'),
-  currency: z.string().length(3, 'Currency must be a 3-letter code'),
+  currency: CurrencySchema,
   num_items: z.number().int().positive('Number of items must be positive'),
   contents: z.array(WishlistProductSchema).min(1, 'At least one wishlist product is required'),
-  wishlist_name: z.string().optional(),
+  wishlist_name: z.string().trim().optional(),
   wishlist_type: WishlistTypeEnum.optional(),
-  wishlist_id: z.string().optional(),
-  content_category: z.string().optional(),
-  brand: z.string().optional(),
+  wishlist_id: z.string().trim().optional(),
+  content_category: z.string().trim().optional(),
+  brand: z.string().trim().optional(),
   predicted_ltv: z.number().nonnegative().optional(),
-  recommendation_source: z.string().optional(),
+  recommendation_source: z.string().trim().optional(),
   user_intent: UserIntentEnum.optional(),
+}).superRefine((data, ctx) => {
+  checkContentsTotal(ctx, 'num_items', data.num_items, sumQuantities(data.contents));
+  checkContentsTotal(ctx, 'value', data.value, sumLineTotals(data.contents), VALUE_TOLERANCE);
 });
 
+// content_ids and content_name default to the purchased products. value is not
+// compared with contents (shipping, taxes and discounts vary per store).
 export const PurchaseDataSchema = z.object({
-  order_id: z.string().min(1, 'Order ID is required for deduplication'),
+  order_id: z.string().trim().min(1, 'Order ID is required for deduplication'),
   value: z.number().positive('Value must be positive'),
-  currency: z.string().length(3, 'Currency must be a 3-letter code'),
+  currency: CurrencySchema,
   contents: z.array(PurchasedProductSchema).min(1, 'At least one purchased product is required'),
   num_items: z.number().int().positive('Number of items must be positive'),
-  content_type: z.literal('product'),
-  content_ids: z.array(z.string()).optional(),
-  content_name: z.string().optional(),
+  content_type: ProductContentTypeSchema,
+  content_ids: ContentIdsSchema.optional(),
+  content_name: z.string().trim().optional(),
   
   // Financial fields
   order_total: z.number().nonnegative().optional(),
@@ -227,38 +367,230 @@ export const PurchaseDataSchema = z.object({
   payment_status: PaymentStatusEnum.optional(),
   
   // Coupon/discount fields
-  coupon_code: z.string().optional(),
-  coupon_codes: z.array(z.string()).optional(),
+  coupon_code: z.string().trim().optional(),
+  coupon_codes: z.array(z.string().trim()).optional(),
   discount_type: DiscountTypeEnum.optional(),
   
   // Shipping fields
   delivery_category: DeliveryCategoryEnum.optional(),
-  shipping_method: z.string().optional(),
-  delivery_date: z.string().optional(),
+  shipping_method: z.string().trim().optional(),
+  delivery_date: z.string().trim().optional(),
   
   // Business intelligence fields
   customer_type: CustomerTypeEnum.optional(),
   order_source: OrderSourceEnum.optional(),
   predicted_ltv: z.number().nonnegative().optional(),
-  subscription_id: z.string().optional(),
+  subscription_id: z.string().trim().optional(),
   
   // Attribution fields
-  campaign_id: z.string().optional(),
-  affiliate_id: z.string().optional(),
-  referrer_source: z.string().optional(),
+  campaign_id: z.string().trim().optional(),
+  affiliate_id: z.string().trim().optional(),
+  referrer_source: z.string().trim().optional(),
+}).superRefine((data, ctx) => {
+  checkContentsTotal(ctx, 'num_items', data.num_items, sumQuantities(data.contents));
+  data.contents.forEach((item, index) => {
+    if (item.original_price !== undefined && item.original_price < item.item_price) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['contents', index, 'original_price'],
+        message: 'Original price must be >= item_price',
+        params: { code: 'below_item_price' },
+      });
+    }
+  });
+  if (data.order_total !== undefined && data.order_total < data.value) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['order_total'],
+      message: 'Order total must be >= value (final total)',
+      params: { code: 'below_value' },
+    });
+  }
+}).transform(data => ({
+  ...data,
+  content_ids: data.content_ids || data.contents.map(item => item.id),
+  content_name: data.content_name || (data.contents.length === 1
+    ? data.contents[0].title || `Product ${data.contents[0].id}`
+    : `Order with ${data.contents.length} products`),
+}));
+
+// SEARCH DATA SCHEMA (catalog search with top-N result products)
+export const SearchDataSchema = z.object({
+  search_string: z.string().trim().min(1, 'Search string is required'),
+  num_results: z.number().int().nonnegative('Number of results must be a non-negative integer').optional(),
+  content_ids: ContentIdsSchema.optional(),
+  contents: z.array(SearchResultProductSchema).optional(),
+  content_type: z.literal('product').optional(),
+  content_category: z.string().trim().optional(),
+  search_source: z.string().trim().optional(),
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+}).refine(data => data.value === undefined || data.currency !== undefined, {
+  message: 'Currency is required when value is provided',
+  path: ['currency'],
+  params: { code: 'currency_required' },
+});
+
+// LEAD DATA SCHEMA (newsletter popups, contact forms, waitlists)
+export const LeadDataSchema = z.object({
+  form_id: z.string().trim().min(1, 'Form ID must be a non-empty string').optional(),
+  form_name: z.string().trim().optional(),
+  lead_type: LeadTypeEnum.optional(),
+  lead_source: z.string().trim().optional(),
+  content_name: z.string().trim().optional(),
+  content_category: z.string().trim().optional(),
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+  coupon_code: z.string().trim().optional(),
+  predicted_ltv: z.number().nonnegative().optional(),
+}).refine(data => data.value === undefined || data.currency !== undefined, {
+  message: 'Currency is required when value is provided',
+  path: ['currency'],
+  params: { code: 'currency_required' },
+});
+
+// COMPLETE REGISTRATION DATA SCHEMA (Shopify customer account creation)
+export const CompleteRegistrationDataSchema = z.object({
+  status: z.string().trim().optional(),
+  registration_method: RegistrationMethodEnum.optional(),
+  content_name: z.string().trim().optional(),
+  customer_id: z.string().trim().optional(),
+  accepts_marketing: z.boolean().optional(),
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+  predicted_ltv: z.number().nonnegative().optional(),
+}).refine(data => data.value === undefined || data.currency !== undefined, {
+  message: 'Currency is required when value is provided',
+  path: ['currency'],
+  params: { code: 'currency_required' },
+});
+
+// CUSTOMIZE PRODUCT DATA SCHEMA (product configurators, engraving, color or size pickers)
+export const CustomizeProductDataSchema = z.object({
+  content_ids: ContentIdsSchema.min(1, 'At least one content ID is required'),
+  content_name: z.string().trim().optional(),
+  content_type: ProductContentTypeSchema,
+  content_category: z.string().trim().optional(),
+  variant_id: z.string().trim().optional(),
+  customization_type: z.string().trim().optional(),
+  // Chosen options, e.g. { "color": "red", "engraving": "yes" }
+  options: z.record(z.string().trim()).optional(),
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+}).refine(data => data.value === undefined || data.currency !== undefined, {
+  message: 'Currency is required when value is provided',
+  path: ['currency'],
+  params: { code: 'currency_required' },
+});
+
+// CONTACT DATA SCHEMA ("contact us" forms, chat, phone and WhatsApp buttons)
+export const ContactDataSchema = z.object({
+  contact_method: ContactMethodEnum.optional(),
+  contact_reason: z.string().trim().optional(),
+  form_id: z.string().trim().min(1, 'Form ID must be a non-empty string').optional(),
+  content_name: z.string().trim().optional(),
+  content_category: z.string().trim().optional(),
+  order_id: z.string().trim().optional(),
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+}).refine(data => data.value === undefined || data.currency !== undefined, {
+  message: 'Currency is required when value is provided',
+  path: ['currency'],
+  params: { code: 'currency_required' },
+});
+
+// FIND LOCATION DATA SCHEMA (store locator)
+export const FindLocationDataSchema = z.object({
+  search_string: z.string().trim().optional(),
+  location_id: z.string().trim().optional(),
+  location_name: z.string().trim().optional(),
+  num_results: z.number().int().nonnegative('Number of results must be a non-negative integer').optional(),
+  content_name: z.string().trim().optional(),
+  content_category: z.string().trim().optional(),
+});
+
+// SCHEDULE DATA SCHEMA (appointments, fittings, in-store pickups)
+export const ScheduleDataSchema = z.object({
+  appointment_type: z.string().trim().optional(),
+  appointment_id: z.string().trim().optional(),
+  // ISO 8601 with offset, e.g. 2024-05-01T15:30:00-03:00
+  appointment_time: z.string().datetime({ offset: true, message: 'Appointment time must be an ISO 8601 date-time' }).optional(),
+  location_id: z.string().trim().optional(),
+  location_name: z.string().trim().optional(),
+  content_name: z.string().trim().optional(),
+  value: z.number().nonnegative('Value must be non-negative').optional(),
+  currency: CurrencySchema.optional(),
+}).refine(data => data.value === undefined || data.currency !== undefined, {
+  message: 'Currency is required when value is provided',
+  path: ['currency'],
+  params: { code: 'currency_required' },
+});
+
+// Fields shared by StartTrial and Subscribe; predicted_ltv is what Meta optimises subscriptions for
+const SubscriptionDataSchema = z.object({
+  predicted_ltv: z.number().nonnegative('Predicted LTV must be non-negative'),
+  currency: CurrencySchema,
+  subscription_id: z.string().trim().optional(),
+  plan_id: z.string().trim().optional(),
+  billing_interval: BillingIntervalEnum.optional(),
+  content_ids: ContentIdsSchema.optional(),
+  content_name: z.string().trim().optional(),
+  content_type: z.literal('product').optional(),
+});
+
+// START TRIAL DATA SCHEMA (free or paid trial of a subscription)
+export const StartTrialDataSchema = SubscriptionDataSchema.extend({
+  // Amount charged to start the trial (0 for free trials)
+  value: z.number().nonnegative('Value must be non-negative').default(0),
+  trial_period_days: z.number().int().positive('Trial period must be a positive number of days').optional(),
+}).superRefine((data, ctx) => {
+  checkPredictedLtv(ctx, data.predicted_ltv, data.value);
+});
+
+// SUBSCRIBE DATA SCHEMA (first payment of a paid subscription)
+export const SubscribeDataSchema = SubscriptionDataSchema.extend({
+  value: z.number().positive('Value must be positive'),
+}).superRefine((data, ctx) => {
+  checkPredictedLtv(ctx, data.predicted_ltv, data.value);
+});
+
+// DONATE DATA SCHEMA (donations, round-ups at checkout)
+export const DonateDataSchema = z.object({
+  value: z.number().positive('Value must be positive'),
+  currency: CurrencySchema,
+  donation_type: DonationTypeEnum.optional(),
+  campaign_id: z.string().trim().optional(),
+  content_name: z.string().trim().optional(),
+  order_id: z.string().trim().optional(),
+});
+
+// REFUND / CANCELLATION DATA SCHEMA (negative-value revenue adjustments)
+export const RefundDataSchema = z.object({
+  order_id: z.string().trim().min(1, 'Original order ID is required'),
+  value: z.number().negative('Value must be negative for revenue adjustments'),
+  refund_amount: z.number().positive('Refund amount must be positive'),
+  currency: CurrencySchema,
+  contents: z.array(PurchasedProductSchema),
+  num_items: z.number().int().nonnegative('Number of items must be non-negative'),
+  content_type: ProductContentTypeSchema,
+  content_ids: ContentIdsSchema.optional(),
+  adjustment_type: AdjustmentTypeEnum,
+  payment_status: PaymentStatusEnum.optional(),
+  refund_id: z.string().trim().optional(),
+  reason: z.string().trim().optional(),
 });
 
 // PAYMENT CART ITEM SCHEMA (for AddPaymentInfo)
 export const PaymentCartItemSchema = z.object({
-  id: z.string().min(1, 'Product ID é obrigatório'),
+  id: z.string().trim().min(1, 'Product ID é obrigatório'),
   quantity: z.number().int().positive('Quantity deve ser positivo'),
   item_price: z.number().nonnegative('Item price deve ser não-negativo'),
-  title: z.string().optional(),
-  category: z.string().optional(),
-  brand: z.string().optional(),
-  variant_id: z.string().optional(),
-  variant_name: z.string().optional(),
-  sku: z.string().optional()
+  title: z.string().trim().optional(),
+  category: z.string().trim().optional(),
+  brand: z.string().trim().optional(),
+  variant_id: z.string().trim().optional(),
+  variant_name: z.string().trim().optional(),
+  sku: z.string().trim().optional()
 });
 
 // E-COMMERCE ADD PAYMENT INFO DATA SCHEMA
@@ -266,13 +598,13 @@ export const AddPaymentInfoDataSchema = z.object({
   // Dados obrigatórios
   contents: z.array(PaymentCartItemSchema).min(1, 'Contents é obrigatório'),
   value: z.number().positive('Value deve ser positivo'),
-  currency: z.string().length(3, 'Currency must be a 3-letter code'),
+  currency: CurrencySchema,
   num_items: z.number().int().positive('Num items deve ser positivo'),
-  content_type: z.literal('product'),
+  content_type: ProductContentTypeSchema,
   
   // Dados do carrinho
-  content_ids: z.array(z.string()).optional(),
-  content_name: z.string().optional(),
+  content_ids: ContentIdsSchema.optional(),
+  content_name: z.string().trim().optional(),
   
   // Informações de pagamento
   payment_method: PaymentMethodEnum.optional(),
@@ -283,24 +615,24 @@ export const AddPaymentInfoDataSchema = z.object({
   shipping_cost: z.number().nonnegative().optional(),
   tax_amount: z.number().nonnegative().optional(),
   discount_amount: z.number().nonnegative().optional(),
-  subtotal: z.number().positive().optional(),
-  order_total: z.number().positive().optional(),
+  subtotal: z.number().nonnegative().optional(),
+  order_total: z.number().nonnegative().optional(),
   
   // Informações de entrega
   delivery_category: DeliveryCategoryEnum.optional(),
-  shipping_method: z.string().optional(),
-  estimated_delivery_date: z.string().optional(),
+  shipping_method: z.string().trim().optional(),
+  estimated_delivery_date: z.string().trim().optional(),
   
   // Dados do checkout
   checkout_step: z.number().int().min(1).max(10).optional(),
-  checkout_id: z.string().optional(),
-  cart_id: z.string().optional(),
-  coupon_code: z.string().optional(),
-  coupon_codes: z.array(z.string()).optional(),
+  checkout_id: z.string().trim().optional(),
+  cart_id: z.string().trim().optional(),
+  coupon_code: z.string().trim().optional(),
+  coupon_codes: z.array(z.string().trim()).optional(),
   
   // Informações do cliente
   customer_type: CustomerTypeEnum.optional(),
-  predicted_ltv: z.number().positive().optional(),
+  predicted_ltv: z.number().nonnegative().optional(),
   
   // Dados de contexto
   payment_source: z.enum(['checkout_page', 'express_checkout', 'one_click', 'mobile_app']).optional(),
@@ -309,6 +641,139 @@ export const AddPaymentInfoDataSchema = z.object({
   // Informações de segurança/risco
   risk_score: z.number().min(0).max(100).optional(),
   fraud_check_passed: z.boolean().optional()
+}).superRefine((data, ctx) => {
+  const calculatedTotal = sumLineTotals(data.contents);
+  checkContentsTotal(ctx, 'num_items', data.num_items, sumQuantities(data.contents));
+  // value pode variar até 1% do total dos itens
+  checkContentsTotal(ctx, 'value', data.value, calculatedTotal, calculatedTotal * 0.01);
+}).transform(data => ({
+  ...data,
+  content_ids: data.content_ids || data.contents.map(item => item.id),
+}));
+
+// =============================================================================
+// EVENT SCHEMA REGISTRY
+// =============================================================================
+
+export const EventTypeEnum = z.enum([
+  'PageView',
+  'ViewContent',
+  'Search',
+  'AddToCart',
+  'AddToWishlist',
+  'InitiateCheckout',
+  'AddPaymentInfo',
+  'Purchase',
+  'Lead',
+  'CompleteRegistration',
+  'CustomizeProduct',
+  'Contact',
+  'FindLocation',
+  'Schedule',
+  'StartTrial',
+  'Subscribe',
+  'Donate'
+]);
+
+/**
+ * custom_data schema of an event (validation and sanitisation) and the
+ * summary the routes log and return for it
+ */
+export interface EventSchemaDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny, Summary = undefined> {
+  schema: Schema;
+  summarize?(data: z.output<Schema>): Summary;
+}
+
+function defineEventSchema<Schema extends z.ZodTypeAny, Summary = undefined>(
+  schema: Schema,
+  summarize?: (data: z.output<Schema>) => Summary
+): EventSchemaDefinition<Schema, Summary> {
+  return { schema, ...(summarize && { summarize }) };
+}
+
+/**
+ * Summary of a cart-like contents array (totals from item_price × quantity)
+ */
+function summarizeContents(contents: BaseProduct[]): CartSummary {
+  const summary = calculateProductSummary(contents);
+  return { ...summary, totalItems: summary.totalQuantity, avgItemPrice: summary.avgUnitPrice };
+}
+
+// Used by every /api/track/* route and by /api/track/batch
+export const EVENT_SCHEMAS = {
+  PageView: defineEventSchema(PageViewDataSchema),
+  ViewContent: defineEventSchema(ViewContentDataSchema),
+  Search: defineEventSchema(SearchDataSchema),
+  AddToCart: defineEventSchema(AddToCartDataSchema, (data): ProductSummary => (
+    data.contents && data.contents.length > 0
+      ? { ...calculateProductSummary(data.contents), totalValue: data.value }
+      : {
+          totalValue: data.value,
+          totalQuantity: data.quantity,
+          avgUnitPrice: data.value / data.quantity,
+          productCount: 1,
+          categories: data.content_category ? [data.content_category] : [],
+          brands: data.brand ? [data.brand] : [],
+        }
+  )),
+  AddToWishlist: defineEventSchema(AddToWishlistDataSchema, (data): WishlistSummary => summarizeContents(data.contents)),
+  InitiateCheckout: defineEventSchema(InitiateCheckoutDataSchema, (data): CartSummary => summarizeContents(data.contents)),
+  AddPaymentInfo: defineEventSchema(AddPaymentInfoDataSchema, (data): PaymentSummary => ({
+    ...summarizeContents(data.contents),
+    totalValue: data.value,
+    totalItems: data.num_items,
+    avgItemPrice: data.value / data.num_items,
+    paymentMethod: data.payment_method || 'not_specified',
+    hasShipping: Boolean(data.shipping_cost && data.shipping_cost > 0),
+    hasTax: Boolean(data.tax_amount && data.tax_amount > 0),
+    hasDiscount: Boolean(data.discount_amount && data.discount_amount > 0),
+    checkoutProgress: data.checkout_step || 3 // AddPaymentInfo geralmente é step 3
+  })),
+  Purchase: defineEventSchema(PurchaseDataSchema, (data): OrderSummary => ({
+    ...summarizeContents(data.contents),
+    totalValue: data.value,
+    grossTotal: data.order_total || data.value,
+    netTotal: data.value,
+    totalSavings: data.contents.reduce((sum, item) => (
+      item.original_price && item.original_price > item.item_price
+        ? sum + ((item.original_price - item.item_price) * item.quantity)
+        : sum + (item.discount_amount || 0)
+    ), 0),
+  })),
+  Lead: defineEventSchema(LeadDataSchema),
+  CompleteRegistration: defineEventSchema(CompleteRegistrationDataSchema),
+  CustomizeProduct: defineEventSchema(CustomizeProductDataSchema),
+  Contact: defineEventSchema(ContactDataSchema),
+  FindLocation: defineEventSchema(FindLocationDataSchema),
+  Schedule: defineEventSchema(ScheduleDataSchema),
+  StartTrial: defineEventSchema(StartTrialDataSchema),
+  Subscribe: defineEventSchema(SubscribeDataSchema),
+  Donate: defineEventSchema(DonateDataSchema),
+} satisfies Record<z.infer<typeof EventTypeEnum>, EventSchemaDefinition<z.ZodTypeAny, unknown>>;
+
+// =============================================================================
+// BATCH EVENT SCHEMAS
+// =============================================================================
+
+// Every registered event can be sent through /api/track/batch
+export const BatchEventTypeEnum = EventTypeEnum;
+
+// Facebook rejects events older than 7 days
+const MAX_EVENT_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export const BatchEventSchema = z.object({
+  type: BatchEventTypeEnum,
+  eventId: z.string().min(1, 'Event ID must be a non-empty string').optional(),
+  userData: z.record(z.unknown()).optional(),
+  customData: z.record(z.unknown()).optional(),
+  eventSourceUrl: z.string().url('Event source URL must be a valid URL').optional(),
+  urlParameters: z.record(z.string()).optional(),
+  // Purchase only: store-side signature of the order (lib/request-signing.ts)
+  orderSignature: z.string().optional(),
+  eventTime: z.number().int().refine(time => {
+    const now = Math.floor(Date.now() / 1000);
+    return time <= now + 60 && time >= now - MAX_EVENT_AGE_SECONDS;
+  }, 'Event time must be a Unix timestamp within the last 7 days').optional(),
 });
 
 // =============================================================================
@@ -325,12 +790,21 @@ export type OrderSource = z.infer<typeof OrderSourceEnum>;
 export type DiscountType = z.infer<typeof DiscountTypeEnum>;
 export type WishlistType = z.infer<typeof WishlistTypeEnum>;
 export type UserIntent = z.infer<typeof UserIntentEnum>;
+export type LeadType = z.infer<typeof LeadTypeEnum>;
+export type RegistrationMethod = z.infer<typeof RegistrationMethodEnum>;
+export type ContactMethod = z.infer<typeof ContactMethodEnum>;
+export type BillingInterval = z.infer<typeof BillingIntervalEnum>;
+export type DonationType = z.infer<typeof DonationTypeEnum>;
+export type AdjustmentType = z.infer<typeof AdjustmentTypeEnum>;
+export type EventType = z.infer<typeof EventTypeEnum>;
+export type BatchEventType = EventType;
 
 export type BaseProduct = z.infer<typeof BaseProductSchema>;
 export type ViewContentProduct = z.infer<typeof ViewContentProductSchema>;
 export type CartItem = z.infer<typeof CartItemSchema>;
 export type WishlistProduct = z.infer<typeof WishlistProductSchema>;
 export type PurchasedProduct = z.infer<typeof PurchasedProductSchema>;
+export type SearchResultProduct = z.infer<typeof SearchResultProductSchema>;
 
 export type EcommerceViewContentData = z.infer<typeof ViewContentDataSchema>;
 export type EcommerceAddToCartData = z.infer<typeof AddToCartDataSchema>;
@@ -338,16 +812,51 @@ export type EcommerceInitiateCheckoutData = z.infer<typeof InitiateCheckoutDataS
 export type EcommerceAddToWishlistData = z.infer<typeof AddToWishlistDataSchema>;
 export type EcommerceAddPaymentInfoData = z.infer<typeof AddPaymentInfoDataSchema>;
 export type EcommercePurchaseData = z.infer<typeof PurchaseDataSchema>;
+export type EcommerceRefundData = z.infer<typeof RefundDataSchema>;
+export type EcommerceSearchData = z.infer<typeof SearchDataSchema>;
+export type EcommerceLeadData = z.infer<typeof LeadDataSchema>;
+export type EcommerceCompleteRegistrationData = z.infer<typeof CompleteRegistrationDataSchema>;
+export type EcommerceCustomizeProductData = z.infer<typeof CustomizeProductDataSchema>;
+export type EcommerceContactData = z.infer<typeof ContactDataSchema>;
+export type EcommerceFindLocationData = z.infer<typeof FindLocationDataSchema>;
+export type EcommerceScheduleData = z.infer<typeof ScheduleDataSchema>;
+export type EcommerceStartTrialData = z.infer<typeof StartTrialDataSchema>;
+export type EcommerceSubscribeData = z.infer<typeof SubscribeDataSchema>;
+export type EcommerceDonateData = z.infer<typeof DonateDataSchema>;
+export type BatchEvent = z.infer<typeof BatchEventSchema>;
+
+// Sanitised custom_data and summary of a registered event
+export type EventData<T extends EventType> = z.output<(typeof EVENT_SCHEMAS)[T]['schema']>;
+export type EventSummary<T extends EventType> =
+  (typeof EVENT_SCHEMAS)[T] extends EventSchemaDefinition<z.ZodTypeAny, infer Summary> ? Summary : undefined;
 
 // =============================================================================
 // VALIDATION RESULT INTERFACES
 // =============================================================================
 
-export interface ValidationResult<T> {
+export interface ValidationIssue {
+  path: string;    // Field that failed, e.g. "contents[0].item_price" ("" for the whole payload)
+  code: string;    // Zod issue code (invalid_type, too_small, ...) or the cross-field check that failed
+  message: string;
+}
+
+export interface ValidationResult<T, Summary = Record<string, any>> {
   isValid: boolean;
-  errors: string[];
+  errors: ValidationIssue[];
   sanitizedData?: T;
-  summary?: Record<string, any>;
+  summary?: Summary;
+}
+
+// Result products always carry a quantity once sanitised (defaults to 1)
+export type SanitizedSearchData = Omit<EcommerceSearchData, 'contents'> & {
+  contents?: Array<SearchResultProduct & { quantity: number }>;
+};
+
+export interface SearchSummary {
+  originalQueryLength: number;
+  queryTruncated: boolean;
+  productCount: number;
+  droppedResults: number;
 }
 
 export interface ProductSummary {
@@ -369,6 +878,14 @@ export interface WishlistSummary extends ProductSummary {
   avgItemPrice: number;
 }
 
+export interface PaymentSummary extends CartSummary {
+  paymentMethod: string;
+  hasShipping: boolean;
+  hasTax: boolean;
+  hasDiscount: boolean;
+  checkoutProgress: number;
+}
+
 export interface OrderSummary extends ProductSummary {
   totalItems: number;
   avgItemPrice: number;
@@ -381,13 +898,41 @@ export interface OrderSummary extends ProductSummary {
 // API RESPONSE INTERFACES
 // =============================================================================
 
+export interface DestinationApiResult {
+  destination: string;
+  dataset_id: string;
+  success: boolean;
+  fbtrace_id?: string;
+  request_id?: string;
+  queued?: boolean;
+  error?: unknown;
+}
+
+export interface ConsentApiResult {
+  rule: 'not_enforced' | 'granted' | 'stripped' | 'dropped';
+  source: 'body' | 'shopify_cookie' | 'default' | 'server_to_server';
+  marketing?: boolean;
+  analytics?: boolean;
+  sale_of_data?: boolean;
+  ldu: boolean;
+}
+
+export interface TrafficApiResult {
+  rule: 'not_checked' | 'human' | 'tagged' | 'dropped';
+  score: number;
+  reasons: string[];
+}
+
 export interface EcommerceApiResponse {
   message: string;
   fbtrace_id?: string;
   event_id: string;
   success: boolean;
   error?: string;
-  errors?: string[];
+  errors?: ValidationIssue[];
+  destinations?: DestinationApiResult[];
+  consent?: ConsentApiResult;
+  traffic?: TrafficApiResult;
 }
 
 export interface ViewContentApiResponse extends EcommerceApiResponse {
@@ -445,23 +990,105 @@ export interface PurchaseApiResponse extends EcommerceApiResponse {
   };
 }
 
+export interface SearchApiResponse extends EcommerceApiResponse {
+  search_data?: {
+    search_string: string;
+    query_truncated: boolean;
+    num_results?: number;
+    product_count: number;
+    product_ids: string[];
+  };
+}
+
+export interface BatchEventApiResult {
+  index: number;
+  type?: string;
+  event_id?: string;
+  success: boolean;
+  fbtrace_id?: string;
+  queued?: boolean;
+  error?: unknown;
+  errors?: ValidationIssue[];
+  retry_after?: number; // Seconds, for events refused by the rate limiter
+  destinations?: DestinationApiResult[];
+  consent?: ConsentApiResult;
+  traffic?: TrafficApiResult;
+}
+
+export interface BatchApiResponse {
+  message: string;
+  success: boolean;
+  event_count: number;
+  succeeded: number;
+  failed: number;
+  results: BatchEventApiResult[];
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+export interface LeadApiResponse extends EcommerceApiResponse {
+  lead_data?: {
+    form_id?: string;
+    lead_type?: LeadType;
+    value?: number;
+    currency?: string;
+  };
+}
+
+export interface CompleteRegistrationApiResponse extends EcommerceApiResponse {
+  registration_data?: {
+    registration_method?: RegistrationMethod;
+    status?: string;
+  };
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
 
+export const SEARCH_QUERY_MAX_LENGTH = 100;
+export const SEARCH_RESULTS_MAX_CONTENTS = 10;
+
+const SEARCH_QUERY_MAX_LENGTH_SETTING = Number(process.env.SEARCH_QUERY_MAX_LENGTH) || SEARCH_QUERY_MAX_LENGTH;
+const SEARCH_RESULTS_MAX_CONTENTS_SETTING = Number(process.env.SEARCH_RESULTS_MAX_CONTENTS) || SEARCH_RESULTS_MAX_CONTENTS;
+const SEARCH_QUERY_LOWERCASE = process.env.SEARCH_QUERY_LOWERCASE !== 'false';
+
+/**
+ * Formats a Zod issue path like the client sends the payload, e.g. contents[0].id
+ */
+function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') return `${formatted}[${segment}]`;
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Converts a Zod issue to a ValidationIssue. Cross-field checks report their
+ * own code through params.code.
+ */
+function toValidationIssue(issue: z.ZodIssue): ValidationIssue {
+  const customCode = issue.code === z.ZodIssueCode.custom ? issue.params?.code : undefined;
+  return {
+    path: formatIssuePath(issue.path),
+    code: typeof customCode === 'string' ? customCode : issue.code,
+    message: issue.message,
+  };
+}
+
 /**
  * Validates e-commerce event data using Zod schemas
  */
-export function validateEcommerceData<T>(
-  schema: z.ZodSchema<T>,
+export function validateEcommerceData<T, Summary = Record<string, any>>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   data: unknown
-): ValidationResult<T> {
+): ValidationResult<T, Summary> {
   const result = schema.safeParse(data);
   
   if (!result.success) {
     return {
       isValid: false,
-      errors: result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`),
+      errors: result.error.errors.map(toValidationIssue),
     };
   }
   
@@ -472,6 +1099,23 @@ export function validateEcommerceData<T>(
   };
 }
 
+/**
+ * Validates and sanitises the custom_data of an event with its schema in
+ * EVENT_SCHEMAS, and adds the event summary when the event has one
+ */
+export function validateEventData<T extends EventType>(
+  type: T,
+  data: unknown
+): ValidationResult<EventData<T>, EventSummary<T>> {
+  const definition: EventSchemaDefinition<z.ZodTypeAny, unknown> = EVENT_SCHEMAS[type];
+  const validation = validateEcommerceData<EventData<T>, EventSummary<T>>(definition.schema, data);
+
+  if (!validation.isValid || !definition.summarize) {
+    return validation;
+  }
+  return { ...validation, summary: definition.summarize(validation.sanitizedData) as EventSummary<T> };
+}
+
 /**
  * Calculates product summary from contents array
  */
@@ -521,6 +1165,126 @@ export function generateEventId(): string {
   });
 }
 
+/**
+ * Builds the deterministic Purchase event_id shared by the browser pixel
+ * (thank-you page) and server-side order webhooks, so Facebook deduplicates them.
+ * The order event_id builders below are used by every order platform (Shopify,
+ * Kiwify, Cakto) and live here only.
+ */
+export function buildPurchaseEventId(orderId: string | number): string {
+  return `purchase_${orderId}`;
+}
+
+/**
+ * Builds the event_id of a refund adjustment (one per refund)
+ */
+export function buildRefundEventId(refundId: string | number): string {
+  return `refund_${refundId}`;
+}
+
+/**
+ * Builds the event_id of a cancellation adjustment (one per order)
+ */
+export function buildCancellationEventId(orderId: string | number): string {
+  return `cancel_${orderId}`;
+}
+
+/**
+ * Builds the event_id of a chargeback adjustment (one per order)
+ */
+export function buildChargebackEventId(orderId: string | number): string {
+  return `chargeback_${orderId}`;
+}
+
+/**
+ * Builds the event_id of a WaitingPayment event (boleto/Pix generated, one per order)
+ */
+export function buildWaitingPaymentEventId(orderId: string | number): string {
+  return `waiting_payment_${orderId}`;
+}
+
+/**
+ * Normalises a search query before it is sent as search_string: Unicode NFKC,
+ * collapsed whitespace, optional lowercasing and truncation to maxLength
+ * characters (code points, so emojis and accents are never split)
+ */
+export function normalizeSearchQuery(
+  query: string,
+  options: { maxLength?: number; lowercase?: boolean } = {}
+): { query: string; truncated: boolean } {
+  const { maxLength = SEARCH_QUERY_MAX_LENGTH, lowercase = true } = options;
+
+  let normalized = query.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  if (lowercase) {
+    normalized = normalized.toLowerCase();
+  }
+
+  const characters = Array.from(normalized);
+  if (maxLength > 0 && characters.length > maxLength) {
+    return { query: characters.slice(0, maxLength).join('').trim(), truncated: true };
+  }
+
+  return { query: normalized, truncated: false };
+}
+
+/**
+ * Validates Search custom_data and normalises it like every Search sent to
+ * Meta: the query goes through normalizeSearchQuery with the SEARCH_QUERY_*
+ * settings and only the top SEARCH_RESULTS_MAX_CONTENTS results are kept
+ */
+export function validateSearchData(data: unknown): ValidationResult<SanitizedSearchData, SearchSummary> {
+  const validation = validateEventData('Search', data);
+  if (!validation.isValid) {
+    return { isValid: false, errors: validation.errors };
+  }
+
+  const searchData = validation.sanitizedData!;
+  const { query, truncated } = normalizeSearchQuery(searchData.search_string, {
+    maxLength: SEARCH_QUERY_MAX_LENGTH_SETTING,
+    lowercase: SEARCH_QUERY_LOWERCASE,
+  });
+
+  if (!query) {
+    return {
+      isValid: false,
+      errors: [{ path: 'search_string', code: 'empty_after_normalisation', message: 'Search string is empty after normalisation' }]
+    };
+  }
+
+  // Keep the top-N results, ordered by position when the client sends it
+  const rankedContents = [...(searchData.contents || [])]
+    .sort((a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER));
+  const contents = rankedContents.slice(0, SEARCH_RESULTS_MAX_CONTENTS_SETTING).map(item => ({
+    ...item,
+    quantity: item.quantity ?? 1
+  }));
+
+  const providedIds = searchData.content_ids || [];
+  const contentIds = (providedIds.length > 0 ? providedIds : contents.map(item => item.id))
+    .slice(0, SEARCH_RESULTS_MAX_CONTENTS_SETTING);
+  const resultCount = Math.max(providedIds.length, rankedContents.length);
+
+  const sanitizedData: SanitizedSearchData = {
+    search_string: query,
+    ...(searchData.num_results !== undefined && { num_results: searchData.num_results }),
+    ...(contentIds.length > 0 && { content_ids: contentIds, content_type: 'product' as const }),
+    ...(contents.length > 0 && { contents }),
+    ...(searchData.content_category && { content_category: searchData.content_category }),
+    ...(searchData.search_source && { search_source: searchData.search_source }),
+    ...(searchData.value !== undefined && { value: searchData.value }),
+    ...(searchData.currency && { currency: searchData.currency })
+  };
+
+  const summary: SearchSummary = {
+    originalQueryLength: searchData.search_string.length,
+    queryTruncated: truncated,
+    productCount: contentIds.length,
+    droppedResults: Math.max(0, resultCount - contentIds.length)
+  };
+
+  return { isValid: true, errors: [], sanitizedData, summary };
+}
+
 /**
  * Validates order totals for financial consistency
  */
@@ -0,0 +1,626 @@
+/**
+ * DURABLE OUTBOUND EVENT QUEUE
+ *
+ * Keeps Conversions API events that could not be delivered so they are retried
+ * instead of lost. Events are stored already built and hashed (ServerEvent), so
+ * a retry sends exactly the same payload and event_id and Facebook deduplicates it.
+ *
+ * - Pluggable storage (QueueStore): file backend by default, Redis via createRedisQueueStore
+ * - Graph API errors are classified as transient (retried with exponential
+ *   backoff) or permanent (moved straight to the dead-letter store)
+ * - Events that exhaust EVENT_QUEUE_MAX_ATTEMPTS or get older than 7 days are
+ *   dead-lettered; dead letters can be listed and replayed
+ *
+ * Delivery itself is injected by lib/fbevents.ts, which owns the Graph API call.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ServerEvent } from './fbevents';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EventQueueMode = 'off' | 'fallback' | 'always';
+export type GraphErrorClass = 'transient' | 'permanent';
+
+export interface QueuedEvent {
+  id: string;
+  payload: ServerEvent;
+  tenantId?: string; // Tenant whose dataset/token deliver the event (see lib/tenants.ts)
+  destination?: string; // Destination dataset of the tenant, primary when omitted
+  attempts: number;
+  enqueuedAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  lastStatus?: number;
+}
+
+export interface DeadLetterEvent extends QueuedEvent {
+  deadLetteredAt: number;
+  reason: string;
+  errorClass: GraphErrorClass;
+}
+
+export interface QueueStats {
+  pending: number;
+  inflight: number;
+  deadLetters: number;
+}
+
+/**
+ * Storage backend contract. claimDue must hand each event to a single worker;
+ * claimed events that are neither completed, rescheduled nor dead-lettered are
+ * returned to the queue by recoverStale.
+ */
+export interface QueueStore {
+  enqueue(event: QueuedEvent): Promise<void>;
+  claimDue(now: number, limit: number): Promise<QueuedEvent[]>;
+  complete(event: QueuedEvent): Promise<void>;
+  reschedule(event: QueuedEvent): Promise<void>;
+  deadLetter(event: DeadLetterEvent): Promise<void>;
+  recoverStale(claimedBefore: number): Promise<number>;
+  listDeadLetters(limit: number): Promise<DeadLetterEvent[]>;
+  takeDeadLetters(ids?: string[]): Promise<DeadLetterEvent[]>;
+  stats(): Promise<QueueStats>;
+}
+
+/**
+ * Subset of the ioredis / node-redis (legacy mode) client API used by the Redis store
+ */
+export interface RedisQueueClient {
+  zadd(key: string, score: number, member: string): Promise<unknown>;
+  zrangebyscore(key: string, min: number | string, max: number | string, ...args: Array<string | number>): Promise<string[]>;
+  zrem(key: string, member: string): Promise<number>;
+  zcard(key: string): Promise<number>;
+  hset(key: string, field: string, value: string): Promise<unknown>;
+  hget(key: string, field: string): Promise<string | null>;
+  hdel(key: string, field: string): Promise<number>;
+  hkeys(key: string): Promise<string[]>;
+  hlen(key: string): Promise<number>;
+}
+
+export interface QueueDeliveryResult {
+  success: boolean;
+  status?: number;
+  fbtrace_id?: string;
+  error?: unknown;
+}
+
+export interface QueueTarget {
+  tenantId?: string;
+  destination?: string;
+}
+
+export type QueueDeliverFunction = (payload: ServerEvent, target: QueueTarget) => Promise<QueueDeliveryResult>;
+
+export interface QueueProcessResult {
+  claimed: number;
+  delivered: number;
+  rescheduled: number;
+  deadLettered: number;
+  recovered: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const rawQueueMode = (process.env.EVENT_QUEUE_MODE || 'fallback').toLowerCase();
+export const EVENT_QUEUE_MODE: EventQueueMode = rawQueueMode === 'off' || rawQueueMode === 'always' ? rawQueueMode : 'fallback';
+
+const EVENT_QUEUE_DIR = process.env.EVENT_QUEUE_DIR || path.join(process.cwd(), '.data', 'event-queue');
+const EVENT_QUEUE_MAX_ATTEMPTS = Number(process.env.EVENT_QUEUE_MAX_ATTEMPTS) || 10;
+const EVENT_QUEUE_BASE_DELAY_MS = Number(process.env.EVENT_QUEUE_BASE_DELAY_MS) || 30_000;
+const EVENT_QUEUE_MAX_DELAY_MS = Number(process.env.EVENT_QUEUE_MAX_DELAY_MS) || 60 * 60 * 1000;
+const EVENT_QUEUE_BATCH_SIZE = Number(process.env.EVENT_QUEUE_BATCH_SIZE) || 100;
+const EVENT_QUEUE_WORKER_INTERVAL_MS = Number(process.env.EVENT_QUEUE_WORKER_INTERVAL_MS) || 15_000;
+
+// A claimed event that is not settled within this window is considered abandoned (crashed worker)
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// Facebook rejects events whose event_time is older than 7 days
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Graph API error codes that are worth retrying: unknown/temporary errors,
+ * throttling and service unavailability
+ */
+const TRANSIENT_GRAPH_ERROR_CODES = [1, 2, 4, 17, 32, 341, 613, 80004];
+
+// =============================================================================
+// ERROR CLASSIFICATION AND BACKOFF
+// =============================================================================
+
+/**
+ * Tells transient Graph API failures (network errors, 429, 5xx, throttling codes,
+ * is_transient) apart from permanent ones (invalid parameters, token, permissions)
+ */
+export function classifyGraphError(status: number | undefined, body: unknown): GraphErrorClass {
+  if (status === undefined) {
+    return 'transient';
+  }
+
+  const graphError = (body && typeof body === 'object' ? (body as { error?: unknown }).error : undefined) as
+    | { code?: number; is_transient?: boolean }
+    | undefined;
+
+  if (graphError?.is_transient === true) {
+    return 'transient';
+  }
+  if (typeof graphError?.code === 'number' && TRANSIENT_GRAPH_ERROR_CODES.indexOf(graphError.code) !== -1) {
+    return 'transient';
+  }
+  if (status === 429 || status >= 500) {
+    return 'transient';
+  }
+  return 'permanent';
+}
+
+/**
+ * Exponential backoff with ±20% jitter: base, 2x base, 4x base, ... capped at the max delay
+ */
+export function computeBackoffDelay(attempts: number): number {
+  const exponential = EVENT_QUEUE_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+  const capped = Math.min(exponential, EVENT_QUEUE_MAX_DELAY_MS);
+  const jitter = capped * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(capped + jitter);
+}
+
+function describeError(error: unknown): string {
+  if (error === undefined || error === null) return 'Unknown error';
+  if (typeof error === 'string') return error;
+  if (error instanceof Error) return error.message;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+function createQueueId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// =============================================================================
+// FILE STORE
+// =============================================================================
+
+/**
+ * File backend: one JSON file per event in pending/, inflight/ and dead-letter/.
+ * Pending file names start with the zero-padded nextAttemptAt so due events are
+ * found without reading them, and claiming is an atomic rename into inflight/.
+ */
+export function createFileQueueStore(baseDir: string = EVENT_QUEUE_DIR): QueueStore {
+  const pendingDir = path.join(baseDir, 'pending');
+  const inflightDir = path.join(baseDir, 'inflight');
+  const deadLetterDir = path.join(baseDir, 'dead-letter');
+  let ready: Promise<void> | null = null;
+
+  const ensureDirs = () => {
+    if (!ready) {
+      ready = Promise.all([pendingDir, inflightDir, deadLetterDir].map(dir => fs.mkdir(dir, { recursive: true })))
+        .then(() => undefined)
+        .catch(error => {
+          ready = null;
+          throw error;
+        });
+    }
+    return ready;
+  };
+
+  const pendingFileName = (event: QueuedEvent) => `${String(event.nextAttemptAt).padStart(13, '0')}-${event.id}.json`;
+
+  const writeAtomic = async (filePath: string, data: unknown) => {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await fs.rename(tempPath, filePath);
+  };
+
+  const readJson = async <T>(filePath: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    } catch {
+      return null;
+    }
+  };
+
+  const listJson = async (dir: string) => (await fs.readdir(dir)).filter(name => name.endsWith('.json')).sort();
+
+  const removeQuietly = async (filePath: string) => {
+    await fs.unlink(filePath).catch(() => undefined);
+  };
+
+  return {
+    async enqueue(event) {
+      await ensureDirs();
+      await writeAtomic(path.join(pendingDir, pendingFileName(event)), event);
+    },
+
+    async claimDue(now, limit) {
+      await ensureDirs();
+      const claimed: QueuedEvent[] = [];
+      for (const name of await listJson(pendingDir)) {
+        if (claimed.length >= limit || Number(name.slice(0, 13)) > now) break;
+        const id = name.slice(14, -'.json'.length);
+        const inflightPath = path.join(inflightDir, `${id}.json`);
+        try {
+          await fs.rename(path.join(pendingDir, name), inflightPath);
+        } catch {
+          continue; // Claimed by another worker
+        }
+        const claimTime = new Date(now);
+        await fs.utimes(inflightPath, claimTime, claimTime).catch(() => undefined);
+        const event = await readJson<QueuedEvent>(inflightPath);
+        if (event) claimed.push(event);
+      }
+      return claimed;
+    },
+
+    async complete(event) {
+      await removeQuietly(path.join(inflightDir, `${event.id}.json`));
+    },
+
+    async reschedule(event) {
+      await ensureDirs();
+      await writeAtomic(path.join(pendingDir, pendingFileName(event)), event);
+      await removeQuietly(path.join(inflightDir, `${event.id}.json`));
+    },
+
+    async deadLetter(event) {
+      await ensureDirs();
+      await writeAtomic(path.join(deadLetterDir, `${event.id}.json`), event);
+      await removeQuietly(path.join(inflightDir, `${event.id}.json`));
+    },
+
+    async recoverStale(claimedBefore) {
+      await ensureDirs();
+      let recovered = 0;
+      for (const name of await listJson(inflightDir)) {
+        const inflightPath = path.join(inflightDir, name);
+        const stats = await fs.stat(inflightPath).catch(() => null);
+        if (!stats || stats.mtimeMs >= claimedBefore) continue;
+        const event = await readJson<QueuedEvent>(inflightPath);
+        if (!event) continue;
+        event.nextAttemptAt = Date.now();
+        await writeAtomic(path.join(pendingDir, pendingFileName(event)), event);
+        await removeQuietly(inflightPath);
+        recovered++;
+      }
+      return recovered;
+    },
+
+    async listDeadLetters(limit) {
+      await ensureDirs();
+      const events: DeadLetterEvent[] = [];
+      for (const name of await listJson(deadLetterDir)) {
+        const event = await readJson<DeadLetterEvent>(path.join(deadLetterDir, name));
+        if (event) events.push(event);
+      }
+      return events.sort((a, b) => b.deadLetteredAt - a.deadLetteredAt).slice(0, limit);
+    },
+
+    async takeDeadLetters(ids) {
+      await ensureDirs();
+      const names = ids ? ids.map(id => `${path.basename(id)}.json`) : await listJson(deadLetterDir);
+      const events: DeadLetterEvent[] = [];
+      for (const name of names) {
+        const filePath = path.join(deadLetterDir, name);
+        const event = await readJson<DeadLetterEvent>(filePath);
+        if (!event) continue;
+        await removeQuietly(filePath);
+        events.push(event);
+      }
+      return events;
+    },
+
+    async stats() {
+      await ensureDirs();
+      const [pending, inflight, deadLetters] = await Promise.all([pendingDir, inflightDir, deadLetterDir].map(listJson));
+      return { pending: pending.length, inflight: inflight.length, deadLetters: deadLetters.length };
+    },
+  };
+}
+
+// =============================================================================
+// REDIS STORE
+// =============================================================================
+
+/**
+ * Redis backend. Event bodies live in a hash; pending and inflight are sorted
+ * sets scored by nextAttemptAt and claim time. ZREM decides which worker wins a claim.
+ */
+export function createRedisQueueStore(client: RedisQueueClient, keyPrefix: string = 'capi:event-queue'): QueueStore {
+  const eventsKey = `${keyPrefix}:events`;
+  const pendingKey = `${keyPrefix}:pending`;
+  const inflightKey = `${keyPrefix}:inflight`;
+  const deadLetterKey = `${keyPrefix}:dead-letter`;
+
+  const readEvent = async <T>(key: string, id: string): Promise<T | null> => {
+    const raw = await client.hget(key, id);
+    return raw ? JSON.parse(raw) as T : null;
+  };
+
+  return {
+    async enqueue(event) {
+      await client.hset(eventsKey, event.id, JSON.stringify(event));
+      await client.zadd(pendingKey, event.nextAttemptAt, event.id);
+    },
+
+    async claimDue(now, limit) {
+      const ids = await client.zrangebyscore(pendingKey, '-inf', now, 'LIMIT', 0, limit);
+      const claimed: QueuedEvent[] = [];
+      for (const id of ids) {
+        if (await client.zrem(pendingKey, id) !== 1) continue; // Claimed by another worker
+        await client.zadd(inflightKey, now, id);
+        const event = await readEvent<QueuedEvent>(eventsKey, id);
+        if (event) claimed.push(event);
+      }
+      return claimed;
+    },
+
+    async complete(event) {
+      await client.zrem(inflightKey, event.id);
+      await client.hdel(eventsKey, event.id);
+    },
+
+    async reschedule(event) {
+      await client.hset(eventsKey, event.id, JSON.stringify(event));
+      await client.zadd(pendingKey, event.nextAttemptAt, event.id);
+      await client.zrem(inflightKey, event.id);
+    },
+
+    async deadLetter(event) {
+      await client.hset(deadLetterKey, event.id, JSON.stringify(event));
+      await client.zrem(inflightKey, event.id);
+      await client.hdel(eventsKey, event.id);
+    },
+
+    async recoverStale(claimedBefore) {
+      const ids = await client.zrangebyscore(inflightKey, '-inf', `(${claimedBefore}`);
+      let recovered = 0;
+      for (const id of ids) {
+        if (await client.zrem(inflightKey, id) !== 1) continue;
+        await client.zadd(pendingKey, Date.now(), id);
+        recovered++;
+      }
+      return recovered;
+    },
+
+    async listDeadLetters(limit) {
+      const ids = await client.hkeys(deadLetterKey);
+      const events: DeadLetterEvent[] = [];
+      for (const id of ids) {
+        const event = await readEvent<DeadLetterEvent>(deadLetterKey, id);
+        if (event) events.push(event);
+      }
+      return events.sort((a, b) => b.deadLetteredAt - a.deadLetteredAt).slice(0, limit);
+    },
+
+    async takeDeadLetters(ids) {
+      const targetIds = ids || await client.hkeys(deadLetterKey);
+      const events: DeadLetterEvent[] = [];
+      for (const id of targetIds) {
+        const event = await readEvent<DeadLetterEvent>(deadLetterKey, id);
+        if (!event || await client.hdel(deadLetterKey, id) !== 1) continue;
+        events.push(event);
+      }
+      return events;
+    },
+
+    async stats() {
+      const [pending, inflight, deadLetters] = await Promise.all([
+        client.zcard(pendingKey),
+        client.zcard(inflightKey),
+        client.hlen(deadLetterKey),
+      ]);
+      return { pending, inflight, deadLetters };
+    },
+  };
+}
+
+// =============================================================================
+// QUEUE OPERATIONS
+// =============================================================================
+
+let queueStore: QueueStore | null = null;
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let workerRunning = false;
+
+/**
+ * Returns the active store (file store unless another one was registered)
+ */
+export function getEventQueueStore(): QueueStore {
+  if (!queueStore) {
+    queueStore = createFileQueueStore();
+  }
+  return queueStore;
+}
+
+/**
+ * Registers another storage backend, e.g. setEventQueueStore(createRedisQueueStore(redis))
+ */
+export function setEventQueueStore(store: QueueStore): void {
+  queueStore = store;
+}
+
+/**
+ * Stores a built payload for (re)delivery. Pass the failure of an inline attempt
+ * to count it and schedule the retry with backoff; without it the event is due now.
+ * The target selects the tenant and destination dataset used for delivery.
+ */
+export async function enqueueServerEvent(
+  payload: ServerEvent,
+  failedAttempt?: { status?: number; error?: unknown },
+  target: QueueTarget = {}
+): Promise<QueuedEvent> {
+  const now = Date.now();
+  const attempts = failedAttempt ? 1 : 0;
+  const event: QueuedEvent = {
+    id: createQueueId(),
+    payload,
+    ...(target.tenantId && { tenantId: target.tenantId }),
+    ...(target.destination && { destination: target.destination }),
+    attempts,
+    enqueuedAt: now,
+    nextAttemptAt: attempts > 0 ? now + computeBackoffDelay(attempts) : now,
+    ...(failedAttempt && { lastError: describeError(failedAttempt.error) }),
+    ...(failedAttempt?.status !== undefined && { lastStatus: failedAttempt.status }),
+  };
+
+  await getEventQueueStore().enqueue(event);
+  console.log(`[${new Date(now).toISOString()}] [EVENT_QUEUE] [${payload.event_id || 'N/A'}] 📥 ${payload.event_name} queued (queue ID: ${event.id}, next attempt: ${new Date(event.nextAttemptAt).toISOString()})`);
+  return event;
+}
+
+/**
+ * Delivers the events that are due. Successful events are removed, transient
+ * failures are rescheduled with backoff and the rest is dead-lettered.
+ */
+export async function processEventQueue(
+  deliver: QueueDeliverFunction,
+  limit: number = EVENT_QUEUE_BATCH_SIZE
+): Promise<QueueProcessResult> {
+  const store = getEventQueueStore();
+  const now = Date.now();
+  const timestamp = new Date(now).toISOString();
+  const result: QueueProcessResult = { claimed: 0, delivered: 0, rescheduled: 0, deadLettered: 0, recovered: 0 };
+
+  result.recovered = await store.recoverStale(now - CLAIM_LEASE_MS);
+  if (result.recovered > 0) {
+    console.warn(`[${timestamp}] [EVENT_QUEUE] ♻️ Recovered ${result.recovered} abandoned in-flight event(s)`);
+  }
+
+  const events = await store.claimDue(now, limit);
+  result.claimed = events.length;
+
+  for (const event of events) {
+    const eventLabel = `${event.payload.event_name} (event ID: ${event.payload.event_id || 'N/A'}, queue ID: ${event.id})`;
+
+    if (event.payload.event_time * 1000 < Date.now() - MAX_EVENT_AGE_MS) {
+      await store.deadLetter({ ...event, deadLetteredAt: Date.now(), reason: 'Event is older than 7 days and would be rejected by Facebook', errorClass: 'permanent' });
+      console.error(`[${timestamp}] [EVENT_QUEUE] ☠️ ${eventLabel} dead-lettered: event too old`);
+      result.deadLettered++;
+      continue;
+    }
+
+    let delivery: QueueDeliveryResult;
+    try {
+      delivery = await deliver(event.payload, { tenantId: event.tenantId, destination: event.destination });
+    } catch (error) {
+      delivery = { success: false, error: describeError(error) };
+    }
+
+    if (delivery.success) {
+      await store.complete(event);
+      console.log(`[${timestamp}] [EVENT_QUEUE] ✅ ${eventLabel} delivered after ${event.attempts + 1} attempt(s). fbtrace_id: ${delivery.fbtrace_id}`);
+      result.delivered++;
+      continue;
+    }
+
+    const attempts = event.attempts + 1;
+    const errorClass = classifyGraphError(delivery.status, delivery.error);
+    const failedEvent: QueuedEvent = {
+      ...event,
+      attempts,
+      lastError: describeError(delivery.error),
+      ...(delivery.status !== undefined && { lastStatus: delivery.status }),
+    };
+
+    if (errorClass === 'permanent' || attempts >= EVENT_QUEUE_MAX_ATTEMPTS) {
+      const reason = errorClass === 'permanent'
+        ? 'Permanent Graph API error'
+        : `Gave up after ${attempts} attempts`;
+      await store.deadLetter({ ...failedEvent, deadLetteredAt: Date.now(), reason, errorClass });
+      console.error(`[${timestamp}] [EVENT_QUEUE] ☠️ ${eventLabel} dead-lettered: ${reason}:`, failedEvent.lastError);
+      result.deadLettered++;
+    } else {
+      failedEvent.nextAttemptAt = Date.now() + computeBackoffDelay(attempts);
+      await store.reschedule(failedEvent);
+      console.warn(`[${timestamp}] [EVENT_QUEUE] 🔁 ${eventLabel} failed (attempt ${attempts}/${EVENT_QUEUE_MAX_ATTEMPTS}), retrying at ${new Date(failedEvent.nextAttemptAt).toISOString()}:`, failedEvent.lastError);
+      result.rescheduled++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Starts the in-process worker (long-running servers). Serverless deployments
+ * should set EVENT_QUEUE_WORKER=off and call POST /api/queue/process from a cron instead.
+ */
+export function startEventQueueWorker(deliver: QueueDeliverFunction): void {
+  if (workerTimer || process.env.EVENT_QUEUE_WORKER === 'off') {
+    return;
+  }
+
+  workerTimer = setInterval(async () => {
+    if (workerRunning) return;
+    workerRunning = true;
+    try {
+      const result = await processEventQueue(deliver);
+      if (result.claimed > 0 || result.recovered > 0) {
+        console.log(`[${new Date().toISOString()}] [EVENT_QUEUE] Worker run:`, result);
+      }
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] [EVENT_QUEUE] 💥 Worker run failed:`, error);
+    } finally {
+      workerRunning = false;
+    }
+  }, EVENT_QUEUE_WORKER_INTERVAL_MS);
+
+  if (typeof workerTimer === 'object' && typeof workerTimer.unref === 'function') {
+    workerTimer.unref();
+  }
+  console.log(`[${new Date().toISOString()}] [EVENT_QUEUE] 🏃 Worker started (interval: ${EVENT_QUEUE_WORKER_INTERVAL_MS}ms)`);
+}
+
+/**
+ * Lists dead-lettered events, most recent first
+ */
+export async function listDeadLetters(limit: number = 100): Promise<DeadLetterEvent[]> {
+  return getEventQueueStore().listDeadLetters(limit);
+}
+
+/**
+ * Moves dead-lettered events (all, or the given queue IDs) back to the queue
+ * with a fresh attempt counter. The original event_id and event_time are kept.
+ */
+export async function replayDeadLetters(ids?: string[]): Promise<QueuedEvent[]> {
+  const store = getEventQueueStore();
+  const now = Date.now();
+  const deadLetters = await store.takeDeadLetters(ids);
+  const replayed: QueuedEvent[] = [];
+
+  for (const deadLetter of deadLetters) {
+    const event: QueuedEvent = {
+      id: deadLetter.id,
+      payload: deadLetter.payload,
+      ...(deadLetter.tenantId && { tenantId: deadLetter.tenantId }),
+      ...(deadLetter.destination && { destination: deadLetter.destination }),
+      attempts: 0,
+      enqueuedAt: deadLetter.enqueuedAt,
+      nextAttemptAt: now,
+      ...(deadLetter.lastError && { lastError: deadLetter.lastError }),
+      ...(deadLetter.lastStatus !== undefined && { lastStatus: deadLetter.lastStatus }),
+    };
+    await store.enqueue(event);
+    replayed.push(event);
+  }
+
+  return replayed;
+}
+
+/**
+ * Returns pending, in-flight and dead-letter counts
+ */
+export async function getEventQueueStats(): Promise<QueueStats> {
+  return getEventQueueStore().stats();
+}
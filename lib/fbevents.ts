@@ -1,4 +1,32 @@
 import { NextRequest } from 'next/server';
+import { createMicroBatcher } from './micro-batcher';
+import { computeSubdomainIndex, extractFbclidFromUrl, resolveFbc, type FbcSource } from './click-id';
+import { getConfig } from './config';
+import { allowsPersonalData, evaluateConsent, getLimitedDataUseOptions, type ConsentDecision } from './consent';
+import { sendToDestinationAdapters } from './destination-adapters';
+import { getFirstPartyCookieDomain } from './first-party-cookies';
+import { classifyTraffic, type TrafficClassification } from './traffic-classification';
+import {
+  DEFAULT_TENANT_ID,
+  PRIMARY_DESTINATION,
+  destinationAcceptsEvent,
+  getTenantById,
+  getTenantDestination,
+  getTenantDestinations,
+  isTenantFeatureEnabled,
+  resolveTenant,
+  type DatasetDestination,
+  type TenantConfig,
+} from './tenants';
+import {
+  EVENT_QUEUE_MODE,
+  classifyGraphError,
+  enqueueServerEvent,
+  processEventQueue,
+  startEventQueueWorker,
+  type QueueDeliveryResult,
+  type QueueTarget,
+} from './event-queue';
 
 export interface UserData {
   em?: string[]; // Email
@@ -70,6 +98,9 @@ export interface CustomData {
   recommendation_source?: string;
   user_intent?: string;
   payment_status?: string;
+  refund_id?: string;
+  refund_amount?: number;
+  adjustment_type?: string;
   discount_type?: string;
   subscription_id?: string;
   campaign_id?: string;
@@ -80,6 +111,13 @@ export interface CustomData {
   variant_id?: string;
   variant_name?: string;
   sku?: string;
+  form_id?: string;
+  form_name?: string;
+  lead_type?: string;
+  lead_source?: string;
+  registration_method?: string;
+  num_results?: number;
+  search_source?: string;
 }
 
 export interface ServerEvent {
@@ -90,13 +128,86 @@ export interface ServerEvent {
   event_source_url?: string;
   action_source: 'website';
   event_id?: string; // Optional: For deduplication
+  // Limited Data Use (see lib/consent.ts)
+  data_processing_options?: string[];
+  data_processing_options_country?: number;
+  data_processing_options_state?: number;
 }
 
-const DATASET_ID = process.env.FACEBOOK_DATASET_ID || '701320582382618';
-const ACCESS_TOKEN = process.env.FACEBOOK_ACCESS_TOKEN || 'EAAVZA2wID1AEBO0NupBzTMuPbn4GBZCInGDNw7Spd2a7DdKcmUgKcjhvbZC67ZCbEgBfZBdm2UiCnPrTiM0JJUdvWkPvNHyeXxOE8JpRi7I0OUlrCydePLGt7F4okAUJw0vxMJguom3yXHwLhahbZBcU2rnYC4dM74AQijN7m4jtQ6hHdTQpJWgxRTk0sOSghZBrwZDZD';
-const TEST_EVENT_CODE = process.env.FACEBOOK_TEST_EVENT_CODE;
+export interface ServerEventDebugInfo {
+  fbc_source: FbcSource;
+  fbc_creation_time?: number;
+  fbc_replaced_cookie?: boolean;
+}
+
+// Outcome of delivering one event to one destination dataset or ad platform
+export interface DestinationResult {
+  destination: string;
+  dataset_id: string; // Meta dataset ID, or the platform account (e.g. TikTok pixel code)
+  success: boolean;
+  fbtrace_id?: string;
+  request_id?: string; // Request ID of non-Meta platforms
+  queued?: boolean;
+  error?: unknown;   // Response body or message of a failed delivery
+  warning?: unknown; // Response body when the platform did not confirm the event
+}
 
-const IPDATA_API_KEY = process.env.IPDATA_API_KEY;
+export interface ServerEventResult {
+  success: boolean;
+  event_id?: string;
+  fbtrace_id?: string; // From the primary dataset
+  queued?: boolean;
+  error?: unknown;
+  warning?: unknown;
+  debug?: ServerEventDebugInfo;
+  destinations?: DestinationResult[];
+  consent?: ConsentDecision;
+  traffic?: TrafficClassification;
+}
+
+export interface SendServerEventOptions {
+  // Use client_ip_address / client_user_agent from userData instead of the request headers.
+  // Needed for webhooks, where the request comes from the platform and not from the buyer's browser.
+  preferUserDataClientInfo?: boolean;
+  // The request comes from a platform server (order webhooks), not from the visitor:
+  // no bot classification, no consent check (lib/consent.ts) and no IP/UA from the request
+  // headers, since neither the platform's headers nor its cookies say anything about the buyer
+  serverToServer?: boolean;
+}
+
+export interface ServerEventInput {
+  eventName: string;
+  userData?: UserData;
+  customData?: CustomData;
+  eventSourceUrl?: string;
+  eventId?: string;
+  urlParameters?: { [key: string]: string };
+  eventTime?: number;
+}
+
+export interface BatchEventResult {
+  index: number;
+  event_name: string;
+  event_id?: string;
+  success: boolean;
+  fbtrace_id?: string;
+  error?: unknown;
+  warning?: unknown;
+  queued?: boolean;
+  destinations?: DestinationResult[];
+  consent?: ConsentDecision;
+  traffic?: TrafficClassification;
+}
+
+// Graph API limit for the number of events in a single /events call
+export const MAX_EVENTS_PER_REQUEST = 1000;
+
+// Dataset IDs, access tokens and test event codes come from the destinations
+// of the tenant of each request (lib/tenants.ts); IPDATA_API_KEY from lib/config.ts
+
+// Micro-batching of single events (disabled when the window is 0)
+const MICRO_BATCH_WINDOW_MS = Number(process.env.CAPI_MICRO_BATCH_WINDOW_MS) || 0;
+const MICRO_BATCH_MAX_SIZE = Math.min(Number(process.env.CAPI_MICRO_BATCH_MAX_SIZE) || 50, MAX_EVENTS_PER_REQUEST);
 
 async function getHashedValue(value: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -108,15 +219,16 @@ async function getHashedValue(value: string): Promise<string> {
 }
 
 export async function getGeolocationData(ipAddress: string): Promise<Partial<UserData>> {
-  if (!ipAddress || !IPDATA_API_KEY) {
-    if (!IPDATA_API_KEY) {
+  const ipdataApiKey = getConfig().ipdataApiKey;
+  if (!ipAddress || !ipdataApiKey) {
+    if (!ipdataApiKey) {
       console.warn('[FBEVENTS_DEBUG] IPDATA_API_KEY is not set. Skipping geolocation lookup.');
     }
     return {};
   }
   try {
     console.log(`[FBEVENTS_DEBUG] Fetching geolocation for IP: ${ipAddress}`);
-    const response = await fetch(`https://api.ipdata.co/${ipAddress}?api-key=${IPDATA_API_KEY}&fields=country_code,region_code,city,postal`);
+    const response = await fetch(`https://api.ipdata.co/${ipAddress}?api-key=${ipdataApiKey}&fields=country_code,region_code,city,postal`);
     if (!response.ok) {
       console.warn(`[FBEVENTS_DEBUG] ipdata.co API request failed for IP ${ipAddress}: ${response.status} ${response.statusText}`);
       return {};
@@ -207,7 +319,10 @@ async function hashUserData(userData: UserData): Promise<UserData> {
   return hashedUserData;
 }
 
-export async function sendServerEvent(
+// Builds the hashed, geo-enriched event payload. The optional geoCache lets a batch
+// resolve each IP address once instead of once per event. Without consent for
+// personal data (lib/consent.ts) only the user agent is kept in user_data.
+async function buildServerEventPayload(
   eventName: string,
   request: NextRequest,
   userData: UserData = {},
@@ -215,70 +330,82 @@ export async function sendServerEvent(
   eventSourceUrl?: string,
   eventId?: string,
   urlParameters?: { [key: string]: string },
-  event_time_override?: number
-) {
-  if (!ACCESS_TOKEN || !DATASET_ID) {
-    console.error('[FBEVENTS_DEBUG] Facebook Dataset ID or Access Token is missing.');
-    return { success: false, error: 'Missing Facebook API credentials on server.' };
-  }
-
-  const timestamp = new Date().toISOString();
-  console.log(`[${timestamp}] [FBEVENTS] sendServerEvent called for ${eventName}. Event ID: ${eventId}`);
-
+  event_time_override?: number,
+  options: SendServerEventOptions = {},
+  tenant?: TenantConfig,
+  geoCache?: Map<string, Promise<Partial<UserData>>>,
+  consent?: ConsentDecision
+): Promise<{ payload: ServerEvent; debug: ServerEventDebugInfo }> {
   const eventTime = event_time_override || Math.floor(Date.now() / 1000);
-  const clientIpAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip');
-  const clientUserAgent = request.headers.get('user-agent');
+  // The headers of a server-to-server request belong to the platform, never to the buyer:
+  // without the buyer's IP/UA in userData they stay unset (and there is no geo lookup)
+  const clientIpAddress = (options.preferUserDataClientInfo && userData.client_ip_address)
+    || (options.serverToServer
+      ? undefined
+      : request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'));
+  const clientUserAgent = (options.preferUserDataClientInfo && userData.client_user_agent)
+    || (options.serverToServer ? undefined : request.headers.get('user-agent'));
   console.log(`[FBEVENTS_DEBUG] Base UserData from API Route:`, JSON.stringify(userData, null, 2));
   console.log(`[FBEVENTS_DEBUG] Base CustomData from API Route:`, JSON.stringify(customData, null, 2));
   console.log(`[FBEVENTS_DEBUG] URL Parameters from API Route:`, JSON.stringify(urlParameters, null, 2));
   console.log(`[FBEVENTS_DEBUG] Captured IP: ${clientIpAddress}, User-Agent: ${clientUserAgent}`);
   
-  // --- Robust fbclid handling --- 
-  let fbcValueForUserData: string | undefined = userData?.fbc; // Start with fbc from cookie (passed in userData)
-  console.log(`[FBEVENTS_DEBUG] Initial fbc from userData (cookie): ${fbcValueForUserData}`);
-
+  // --- fbclid / fbc handling ---
+  // fbclid is never sent in custom_data: it only feeds user_data.fbc (see lib/click-id.ts)
   let tempUrlParams = urlParameters ? { ...urlParameters } : {};
   let tempCustomData = customData ? { ...customData } : {};
 
-  // Priority 1: fbclid from urlParameters
-  if (tempUrlParams.fbclid) {
-    fbcValueForUserData = tempUrlParams.fbclid;
-    console.log(`[FBEVENTS_DEBUG] fbclid found in urlParameters. Set as fbc: ${fbcValueForUserData}. Removing from tempUrlParams.`);
-    delete tempUrlParams.fbclid;
-  } else {
-    console.log(`[FBEVENTS_DEBUG] fbclid NOT found in urlParameters.`);
-  }
-
-  // Priority 2 (Fallback): fbclid from customData (if frontend sent it there mistakenly)
-  if (!fbcValueForUserData && tempCustomData.fbclid) {
-    fbcValueForUserData = tempCustomData.fbclid as string; // Assuming it would be a string if present
-    console.log(`[FBEVENTS_DEBUG] fbclid found in customData (fallback). Set as fbc: ${fbcValueForUserData}. Removing from tempCustomData.`);
-    delete tempCustomData.fbclid;
-  } else if (tempCustomData.hasOwnProperty('fbclid')) {
-    // If fbcValueForUserData was already set (e.g. from urlParameters), still remove fbclid from tempCustomData
-    console.log(`[FBEVENTS_DEBUG] fbclid also found in customData, but fbc already set. Removing from tempCustomData.`);
-    delete tempCustomData.fbclid;
-  }
-  console.log(`[FBEVENTS_DEBUG] Final fbc value for user_data: ${fbcValueForUserData}`);
-  // --- End of fbclid handling ---
+  const fbclidFromUrlParameters = tempUrlParams.fbclid;
+  const fbclidFromCustomData = typeof tempCustomData.fbclid === 'string' ? tempCustomData.fbclid : undefined;
+  delete tempUrlParams.fbclid;
+  delete tempCustomData.fbclid;
+
+  // Priority: urlParameters, then customData (frontend mistake), then the event source URL
+  const fbclid = fbclidFromUrlParameters || fbclidFromCustomData || extractFbclidFromUrl(eventSourceUrl);
+  // Same subdomain index as the _fbc cookie set on the response (lib/first-party-cookies.ts)
+  const fbcResolution = resolveFbc({
+    existingFbc: userData?.fbc,
+    fbclid,
+    eventTimeMs: eventTime * 1000,
+    subdomainIndex: computeSubdomainIndex(getFirstPartyCookieDomain(tenant)),
+  });
+  console.log(`[FBEVENTS_DEBUG] fbc resolution: source=${fbcResolution.source}, fbclid=${fbclid || 'N/A'}, cookie fbc=${userData?.fbc || 'N/A'}, final fbc=${fbcResolution.fbc || 'N/A'}`);
+  // --- End of fbclid / fbc handling ---
 
   let enhancedUserData: UserData = {
-    ...userData, // Includes original fbc (cookie), em, ph, fn, ln etc.
+    ...userData, // Includes em, ph, fn, ln etc.
     client_ip_address: clientIpAddress || undefined,
     client_user_agent: clientUserAgent || undefined,
   };
 
-  if (fbcValueForUserData) {
-    enhancedUserData.fbc = fbcValueForUserData; // Override with the determined fbc value
+  if (fbcResolution.fbc) {
+    enhancedUserData.fbc = fbcResolution.fbc;
+  } else {
+    delete enhancedUserData.fbc;
+  }
+
+  const stripPersonalData = consent !== undefined && !allowsPersonalData(consent);
+  if (stripPersonalData) {
+    enhancedUserData = clientUserAgent ? { client_user_agent: clientUserAgent } : {};
+    console.log(`[FBEVENTS_DEBUG] No consent for personal data (rule: ${consent!.rule}). user_data stripped to the user agent.`);
   }
   console.log(`[FBEVENTS_DEBUG] UserData before geo-enrichment (fbc processed):`, JSON.stringify(enhancedUserData, null, 2));
 
-  if (clientIpAddress && IPDATA_API_KEY) { // Ensure API key is present for geolocation
+  if (stripPersonalData) {
+    console.log(`[FBEVENTS_DEBUG] Skipping geolocation lookup without consent for personal data.`);
+  } else if (!isTenantFeatureEnabled(tenant, 'geoEnrichment', true)) {
+    console.log(`[FBEVENTS_DEBUG] Geolocation disabled for tenant ${tenant?.id}. Skipping geolocation lookup.`);
+  } else if (clientIpAddress && getConfig().ipdataApiKey) { // Ensure API key is present for geolocation
     console.log(`[FBEVENTS_DEBUG] Attempting geolocation for IP: ${clientIpAddress}`);
-    const geoData = await getGeolocationData(clientIpAddress);
+    let geoLookup = geoCache?.get(clientIpAddress);
+    if (!geoLookup) {
+      geoLookup = getGeolocationData(clientIpAddress);
+      geoCache?.set(clientIpAddress, geoLookup);
+    }
+    const geoData = await geoLookup;
     console.log(`[FBEVENTS_DEBUG] Geolocation data received:`, JSON.stringify(geoData, null, 2));
     enhancedUserData = { ...enhancedUserData, ...geoData };
-  } else if (clientIpAddress && !IPDATA_API_KEY) {
+  } else if (clientIpAddress) {
     console.warn('[FBEVENTS_DEBUG] IPDATA_API_KEY is not set. Skipping geolocation lookup.');
   }
   console.log(`[FBEVENTS_DEBUG] Enhanced user data (pre-hash, fbc and geo processed):`, JSON.stringify(enhancedUserData, null, 2));
@@ -308,43 +435,469 @@ export async function sendServerEvent(
     payload.event_id = eventId;
   }
 
-  console.log(`[FBEVENTS_DEBUG] Sending ${eventName} event to Facebook. Event ID: ${payload.event_id}. Full Payload (with hashed data):`, JSON.stringify(payload, null, 2));
+  if (consent?.ldu) {
+    Object.assign(payload, getLimitedDataUseOptions(tenant));
+    console.log(`[FBEVENTS_DEBUG] Limited Data Use applied:`, JSON.stringify(getLimitedDataUseOptions(tenant)));
+  }
+
+  const debug: ServerEventDebugInfo = {
+    fbc_source: fbcResolution.source,
+    ...(fbcResolution.creationTime !== undefined && { fbc_creation_time: fbcResolution.creationTime }),
+    ...(fbcResolution.replacedCookie && { fbc_replaced_cookie: true }),
+  };
+
+  return { payload, debug };
+}
+
+// Body of a Graph API /events response; failed calls carry error instead
+interface GraphResponseData {
+  events_received?: number;
+  fbtrace_id?: string;
+  messages?: unknown[];
+  error?: unknown;
+}
+
+interface GraphPostResult {
+  ok: boolean;
+  status: number;
+  responseData: GraphResponseData;
+}
+
+// Posts one or more payloads to a destination dataset in a single Graph API call
+async function postServerEvents(destination: DatasetDestination, payloads: ServerEvent[]): Promise<GraphPostResult> {
+  const response = await fetch(
+    `https://graph.facebook.com/v19.0/${destination.datasetId}/events?access_token=${destination.accessToken}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ data: payloads, ...(destination.testEventCode && { test_event_code: destination.testEventCode }) }),
+    }
+  );
+
+  return { ok: response.ok, status: response.status, responseData: await response.json() };
+}
+
+// Flushes a micro-batch and maps the Graph response back to each payload.
+// A rejected multi-event call is retried event by event to isolate invalid events.
+async function flushMicroBatch(destination: DatasetDestination, payloads: ServerEvent[]): Promise<GraphPostResult[]> {
+  const result = await postServerEvents(destination, payloads);
+  if (payloads.length === 1) {
+    return [result];
+  }
+
+  console.log(`[FBEVENTS_DEBUG] Micro-batch of ${payloads.length} events flushed to Facebook dataset ${destination.datasetId}:`, JSON.stringify(result.responseData, null, 2));
+
+  if (!result.ok) {
+    console.warn(`[FBEVENTS_DEBUG] Facebook rejected a micro-batch of ${payloads.length} events. Retrying each event individually to isolate errors.`);
+    const results: GraphPostResult[] = [];
+    for (const payload of payloads) {
+      results.push(await postServerEvents(destination, [payload]));
+    }
+    return results;
+  }
+
+  const perEventData = result.responseData.events_received === payloads.length
+    ? { ...result.responseData, events_received: 1 }
+    : result.responseData;
+  return payloads.map(() => ({ ok: result.ok, status: result.status, responseData: perEventData }));
+}
 
+// Micro-batches are keyed by "<tenantId>/<destination name>"
+const microBatcher = createMicroBatcher<ServerEvent, GraphPostResult>({
+  maxBatchSize: MICRO_BATCH_MAX_SIZE,
+  maxWaitMs: MICRO_BATCH_WINDOW_MS,
+  flush: (key, payloads) => {
+    const [tenantId, destinationName] = key.split('/');
+    const tenant = getTenantById(tenantId);
+    const destination = tenant && getTenantDestination(tenant, destinationName);
+    if (!destination) {
+      throw new Error(`Unknown destination "${key}" for micro-batch`);
+    }
+    return flushMicroBatch(destination, payloads);
+  },
+});
+
+// Sends a single payload, through the per-destination micro-batcher when it is enabled
+async function postServerEvent(tenant: TenantConfig, destination: DatasetDestination, payload: ServerEvent): Promise<GraphPostResult> {
+  if (MICRO_BATCH_WINDOW_MS > 0) {
+    return microBatcher.add(`${tenant.id}/${destination.name}`, payload);
+  }
+  return postServerEvents(destination, [payload]);
+}
+
+/**
+ * Delivery function used by the event queue worker for stored payloads.
+ * Events queued without a tenant or destination go to the default tenant's primary dataset.
+ */
+export async function deliverQueuedServerEvent(payload: ServerEvent, target: QueueTarget = {}): Promise<QueueDeliveryResult> {
+  const tenantId = target.tenantId || DEFAULT_TENANT_ID;
+  const destinationName = target.destination || PRIMARY_DESTINATION;
+  const tenant = getTenantById(tenantId);
+  const destination = tenant && getTenantDestination(tenant, destinationName);
+  if (!destination) {
+    return { success: false, error: `Unknown destination "${destinationName}" of tenant "${tenantId}"` };
+  }
   try {
-    const response = await fetch(
-      `https://graph.facebook.com/v19.0/${DATASET_ID}/events?access_token=${ACCESS_TOKEN}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ data: [payload], ...(TEST_EVENT_CODE && { test_event_code: TEST_EVENT_CODE }) }),
-      }
-    );
+    const { ok, status, responseData } = await postServerEvents(destination, [payload]);
+    if (ok && (responseData.events_received === 1 || responseData.fbtrace_id)) {
+      return { success: true, status, fbtrace_id: responseData.fbtrace_id };
+    }
+    return { success: false, status, error: responseData };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
 
-    const responseData = await response.json();
-    console.log(`[FBEVENTS_DEBUG] Response from Facebook for ${eventName} (ID: ${payload.event_id}):`, JSON.stringify(responseData, null, 2));
+/**
+ * Runs one pass of the event queue worker (used by the cron-triggered queue route)
+ */
+export async function processQueuedServerEvents(limit?: number) {
+  return processEventQueue(deliverQueuedServerEvent, limit);
+}
 
-    if (!response.ok) {
-      console.error(`[FBEVENTS_DEBUG] Error sending Facebook server event ${eventName} (ID: ${payload.event_id}):`, responseData);
-      return { success: false, error: responseData, event_id: payload.event_id };
-    } 
+function isTenantQueueEnabled(tenant: TenantConfig): boolean {
+  return EVENT_QUEUE_MODE !== 'off' && isTenantFeatureEnabled(tenant, 'eventQueue', true);
+}
+
+// Stores a payload whose inline delivery failed transiently. Returns false when
+// queueing is disabled, the error is permanent or the store is unavailable.
+async function queueFailedServerEvent(
+  tenant: TenantConfig,
+  destination: DatasetDestination,
+  payload: ServerEvent,
+  status: number | undefined,
+  error: unknown
+): Promise<boolean> {
+  if (!isTenantQueueEnabled(tenant) || classifyGraphError(status, error) === 'permanent') {
+    return false;
+  }
+  try {
+    await enqueueServerEvent(payload, { status, error }, { tenantId: tenant.id, destination: destination.name });
+    startEventQueueWorker(deliverQueuedServerEvent);
+    return true;
+  } catch (queueError) {
+    console.error(`[FBEVENTS_DEBUG] Could not queue ${payload.event_name} (ID: ${payload.event_id}) for retry:`, queueError);
+    return false;
+  }
+}
+
+// Combines the per-destination outcomes of one event. The event succeeds when every
+// Meta destination accepted (or queued) it; fbtrace_id comes from the primary dataset.
+// Adapter results (lib/destination-adapters.ts) are only reported.
+function summarizeDestinationResults(
+  results: DestinationResult[],
+  adapterResults: DestinationResult[] = []
+): Omit<ServerEventResult, 'event_id' | 'debug'> {
+  const failed = results.find(result => !result.success);
+  const fbtraceId = results[0]?.fbtrace_id;
+  return {
+    success: !failed,
+    ...(fbtraceId && { fbtrace_id: fbtraceId }),
+    ...(!failed && results.some(result => result.queued) && { queued: true }),
+    ...(failed?.error !== undefined && { error: failed.error }),
+    ...(failed?.warning !== undefined && { warning: failed.warning }),
+    destinations: [...results, ...adapterResults],
+  };
+}
+
+// Delivers one payload to one destination, queueing transient failures
+async function deliverToDestination(
+  tenant: TenantConfig,
+  destination: DatasetDestination,
+  payload: ServerEvent
+): Promise<DestinationResult> {
+  const eventName = payload.event_name;
+  const label = `${eventName} (ID: ${payload.event_id}, destination: ${destination.name})`;
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: destination.name,
+    dataset_id: destination.datasetId,
+    success: false,
+    ...outcome,
+  });
+
+  try {
+    const { ok, status, responseData } = await postServerEvent(tenant, destination, payload);
+    console.log(`[FBEVENTS_DEBUG] Response from Facebook for ${label}:`, JSON.stringify(responseData, null, 2));
+
+    if (!ok) {
+      console.error(`[FBEVENTS_DEBUG] Error sending Facebook server event ${label}:`, responseData);
+      if (await queueFailedServerEvent(tenant, destination, payload, status, responseData)) {
+        return toResult({ success: true, queued: true });
+      }
+      return toResult({ error: responseData });
+    }
 
     if (responseData.events_received === 1 || responseData.fbtrace_id) { // Check fbtrace_id as well for success
         if (responseData.fbtrace_id) {
-            console.log(`[FBEVENTS_DEBUG] Facebook event ${eventName} (ID: ${payload.event_id}) sent successfully. Trace ID: ${responseData.fbtrace_id}`);
+            console.log(`[FBEVENTS_DEBUG] Facebook event ${label} sent successfully. Trace ID: ${responseData.fbtrace_id}`);
         }
-        return { success: true, fbtrace_id: responseData.fbtrace_id, event_id: payload.event_id };
+        return toResult({ success: true, fbtrace_id: responseData.fbtrace_id });
     } else {
-        console.warn(`[FBEVENTS_DEBUG] Facebook event API did not confirm event ${eventName} (ID: ${payload.event_id}) received as expected:`, responseData);
-        return { success: false, warning: responseData, event_id: payload.event_id };
+        console.warn(`[FBEVENTS_DEBUG] Facebook event API did not confirm event ${label} received as expected:`, responseData);
+        return toResult({ warning: responseData });
+    }
+
+  } catch (error) {
+    const err = error as Error;
+    console.error(`[FBEVENTS_DEBUG] Failed to send Facebook server event ${label}:`, err.message, err.stack);
+    if (await queueFailedServerEvent(tenant, destination, payload, undefined, err.message)) {
+      return toResult({ success: true, queued: true });
+    }
+    return toResult({ error: err.message });
+  }
+}
+
+export async function sendServerEvent(
+  eventName: string,
+  request: NextRequest,
+  userData: UserData = {},
+  customData: CustomData = {},
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string },
+  event_time_override?: number,
+  options: SendServerEventOptions = {}
+): Promise<ServerEventResult> {
+  const tenant = resolveTenant(request);
+  if (!tenant) {
+    console.error(`[FBEVENTS_DEBUG] No tenant matches this request. ${eventName} (ID: ${eventId}) was not sent.`);
+    return { success: false, error: 'No tenant configured for this request.' };
+  }
+  if (!tenant.accessToken || !tenant.datasetId) {
+    console.error(`[FBEVENTS_DEBUG] Facebook Dataset ID or Access Token is missing for tenant ${tenant.id}.`);
+    return { success: false, error: 'Missing Facebook API credentials on server.' };
+  }
+
+  const timestamp = new Date().toISOString();
+  console.log(`[${timestamp}] [FBEVENTS] sendServerEvent called for ${eventName}. Event ID: ${eventId}. Tenant: ${tenant.id}`);
+
+  // Webhook requests come from the platform, not from the visitor, so they are not classified
+  const traffic = classifyTraffic(request, tenant, eventName, { serverToServer: options.serverToServer });
+  if (traffic.rule === 'dropped') {
+    console.log(`[FBEVENTS_DEBUG] ${eventName} (ID: ${eventId}) dropped: bot traffic (${traffic.reasons.join(', ')}).`);
+    return { success: true, event_id: eventId, destinations: [], traffic };
+  }
+
+  const consent = evaluateConsent(request, tenant, { serverToServer: options.serverToServer });
+  if (consent.rule === 'dropped') {
+    console.log(`[FBEVENTS_DEBUG] ${eventName} (ID: ${eventId}) dropped: no marketing consent (source: ${consent.source}).`);
+    return { success: true, event_id: eventId, destinations: [], consent, traffic };
+  }
+
+  const { payload, debug } = await buildServerEventPayload(
+    eventName,
+    request,
+    userData,
+    customData,
+    eventSourceUrl,
+    eventId,
+    urlParameters,
+    event_time_override,
+    options,
+    tenant,
+    undefined,
+    consent
+  );
+  if (traffic.rule === 'tagged') {
+    payload.custom_data = { ...payload.custom_data, traffic_type: 'bot' };
+  }
+
+  const destinations = getTenantDestinations(tenant).filter(destination => destinationAcceptsEvent(destination, eventName));
+  // Other ad platforms are always sent to inline, in parallel with Meta. They read
+  // click IDs and cookies directly, so they are skipped without consent for personal data.
+  const adapterDelivery = allowsPersonalData(consent)
+    ? sendToDestinationAdapters(tenant, [{ payload, request, urlParameters }]).then(results => results[0])
+    : Promise.resolve([]);
+
+  if (EVENT_QUEUE_MODE === 'always' && isTenantQueueEnabled(tenant)) {
+    try {
+      for (const destination of destinations) {
+        await enqueueServerEvent(payload, undefined, { tenantId: tenant.id, destination: destination.name });
+      }
+      startEventQueueWorker(deliverQueuedServerEvent);
+      const queuedResults = destinations.map(destination => ({
+        destination: destination.name,
+        dataset_id: destination.datasetId,
+        success: true,
+        queued: true,
+      }));
+      return { ...summarizeDestinationResults(queuedResults, await adapterDelivery), event_id: payload.event_id, debug, consent, traffic };
+    } catch (queueError) {
+      console.error(`[FBEVENTS_DEBUG] Could not queue ${eventName} (ID: ${payload.event_id}), sending inline instead:`, queueError);
+    }
+  }
+
+  console.log(`[FBEVENTS_DEBUG] Sending ${eventName} event to ${destinations.length} Facebook dataset(s) (${destinations.map(destination => destination.name).join(', ')}). Event ID: ${payload.event_id}. Full Payload (with hashed data):`, JSON.stringify(payload, null, 2));
+
+  const destinationResults = await Promise.all(
+    destinations.map(destination => deliverToDestination(tenant, destination, payload))
+  );
+  return { ...summarizeDestinationResults(destinationResults, await adapterDelivery), event_id: payload.event_id, debug, consent, traffic };
+}
+
+// Sends one chunk (<= MAX_EVENTS_PER_REQUEST) to a destination and maps the response
+// back to each event, in order. Graph rejects the whole call when a single event is
+// invalid, so a rejected multi-event chunk is retried event by event to isolate the offending ones.
+async function sendServerEventChunk(
+  tenant: TenantConfig,
+  destination: DatasetDestination,
+  payloads: ServerEvent[]
+): Promise<DestinationResult[]> {
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: destination.name,
+    dataset_id: destination.datasetId,
+    success: false,
+    ...outcome,
+  });
+
+  try {
+    const { ok, status, responseData } = await postServerEvents(destination, payloads);
+    console.log(`[FBEVENTS_DEBUG] Batch response from Facebook (destination: ${destination.name}) for ${payloads.length} event(s):`, JSON.stringify(responseData, null, 2));
+
+    if (!ok) {
+      if (payloads.length > 1) {
+        console.warn(`[FBEVENTS_DEBUG] Facebook rejected a batch of ${payloads.length} events. Retrying each event individually to isolate errors.`);
+        const results: DestinationResult[] = [];
+        for (const payload of payloads) {
+          results.push(...await sendServerEventChunk(tenant, destination, [payload]));
+        }
+        return results;
+      }
+      console.error(`[FBEVENTS_DEBUG] Error sending Facebook server event ${payloads[0].event_name} (ID: ${payloads[0].event_id}, destination: ${destination.name}):`, responseData);
+      if (await queueFailedServerEvent(tenant, destination, payloads[0], status, responseData)) {
+        return [toResult({ success: true, queued: true })];
+      }
+      return [toResult({ error: responseData })];
+    }
+
+    if (responseData.events_received === payloads.length) {
+      return payloads.map(() => toResult({ success: true, fbtrace_id: responseData.fbtrace_id }));
     }
 
+    console.warn(`[FBEVENTS_DEBUG] Facebook confirmed ${responseData.events_received} of ${payloads.length} events in batch:`, responseData);
+    return payloads.map(() => toResult({ warning: responseData }));
   } catch (error) {
     const err = error as Error;
-    console.error(`[FBEVENTS_DEBUG] Failed to send Facebook server event ${eventName} (ID: ${payload?.event_id || 'N/A'}):`, err.message, err.stack);
-    return { success: false, error: err.message, event_id: payload?.event_id || 'N/A' };
+    console.error(`[FBEVENTS_DEBUG] Failed to send batch of ${payloads.length} Facebook server event(s) (destination: ${destination.name}):`, err.message, err.stack);
+    const results: DestinationResult[] = [];
+    for (const payload of payloads) {
+      const queued = await queueFailedServerEvent(tenant, destination, payload, undefined, err.message);
+      results.push(toResult(queued ? { success: true, queued: true } : { error: err.message }));
+    }
+    return results;
+  }
+}
+
+/**
+ * Sends many events with as few Graph API calls as possible (up to
+ * MAX_EVENTS_PER_REQUEST per call and destination) and returns one result per
+ * input event, in order
+ */
+export async function sendServerEventBatch(
+  request: NextRequest,
+  events: ServerEventInput[],
+  options: SendServerEventOptions = {}
+): Promise<BatchEventResult[]> {
+  const tenant = resolveTenant(request);
+  if (!tenant || !tenant.accessToken || !tenant.datasetId) {
+    const error = tenant ? 'Missing Facebook API credentials on server.' : 'No tenant configured for this request.';
+    console.error(`[FBEVENTS_DEBUG] ${error} Batch of ${events.length} event(s) was not sent.`);
+    return events.map((event, index) => ({
+      index,
+      event_name: event.eventName,
+      event_id: event.eventId,
+      success: false,
+      error,
+    }));
+  }
+
+  const timestamp = new Date().toISOString();
+  console.log(`[${timestamp}] [FBEVENTS] sendServerEventBatch called with ${events.length} event(s). Tenant: ${tenant.id}`);
+
+  // All events of a batch share the traffic classification and the consent of its request
+  const traffic = classifyTraffic(request, tenant, 'Batch', {
+    eventCount: events.length,
+    serverToServer: options.serverToServer,
+  });
+  if (traffic.rule === 'dropped') {
+    console.log(`[FBEVENTS_DEBUG] Batch of ${events.length} event(s) dropped: bot traffic (${traffic.reasons.join(', ')}).`);
+    return events.map((event, index) => ({
+      index,
+      event_name: event.eventName,
+      event_id: event.eventId,
+      success: true,
+      destinations: [],
+      traffic,
+    }));
+  }
+
+  const consent = evaluateConsent(request, tenant, { serverToServer: options.serverToServer });
+  if (consent.rule === 'dropped') {
+    console.log(`[FBEVENTS_DEBUG] Batch of ${events.length} event(s) dropped: no marketing consent (source: ${consent.source}).`);
+    return events.map((event, index) => ({
+      index,
+      event_name: event.eventName,
+      event_id: event.eventId,
+      success: true,
+      destinations: [],
+      consent,
+      traffic,
+    }));
+  }
+
+  const geoCache = new Map<string, Promise<Partial<UserData>>>();
+  const payloads = await Promise.all(events.map(event => buildServerEventPayload(
+    event.eventName,
+    request,
+    event.userData,
+    event.customData,
+    event.eventSourceUrl,
+    event.eventId,
+    event.urlParameters,
+    event.eventTime,
+    options,
+    tenant,
+    geoCache,
+    consent
+  ).then(built => built.payload)));
+  if (traffic.rule === 'tagged') {
+    for (const payload of payloads) {
+      payload.custom_data = { ...payload.custom_data, traffic_type: 'bot' };
+    }
+  }
+
+  const adapterDelivery = allowsPersonalData(consent)
+    ? sendToDestinationAdapters(tenant, payloads.map((payload, index) => ({
+      payload,
+      request,
+      urlParameters: events[index].urlParameters,
+    })))
+    : Promise.resolve(payloads.map(() => []));
+
+  const destinationResults: DestinationResult[][] = payloads.map(() => []);
+  for (const destination of getTenantDestinations(tenant)) {
+    const indexes = payloads
+      .map((payload, index) => (destinationAcceptsEvent(destination, payload.event_name) ? index : -1))
+      .filter(index => index !== -1);
+
+    for (let start = 0; start < indexes.length; start += MAX_EVENTS_PER_REQUEST) {
+      const chunkIndexes = indexes.slice(start, start + MAX_EVENTS_PER_REQUEST);
+      const chunkResults = await sendServerEventChunk(tenant, destination, chunkIndexes.map(index => payloads[index]));
+      chunkResults.forEach((result, position) => destinationResults[chunkIndexes[position]].push(result));
+    }
   }
+
+  const adapterResults = await adapterDelivery;
+  return payloads.map((payload, index) => ({
+    index,
+    event_name: payload.event_name,
+    event_id: payload.event_id,
+    ...summarizeDestinationResults(destinationResults[index], adapterResults[index]),
+    consent,
+    traffic,
+  }));
 }
 
 // Specific event functions (examples)
@@ -395,6 +948,30 @@ export async function sendLeadEvent(
   return sendServerEvent('Lead', request, userData, customData, eventSourceUrl, eventId, urlParameters, event_time_override);
 }
 
+export async function sendSearchEvent(
+  request: NextRequest,
+  userData: UserData = {},
+  customData: CustomData = {},
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string },
+  event_time_override?: number
+) {
+  return sendServerEvent('Search', request, userData, customData, eventSourceUrl, eventId, urlParameters, event_time_override);
+}
+
+export async function sendCompleteRegistrationEvent(
+  request: NextRequest,
+  userData: UserData = {},
+  customData: CustomData = {},
+  eventSourceUrl?: string,
+  eventId?: string,
+  urlParameters?: { [key: string]: string },
+  event_time_override?: number
+) {
+  return sendServerEvent('CompleteRegistration', request, userData, customData, eventSourceUrl, eventId, urlParameters, event_time_override);
+}
+
 // Nova função específica para Purchase que pode receber o event_time do webhook
 export async function sendPurchaseEventViaWebhook(
   request: NextRequest, // Ainda necessário para IP/UA se não vierem no payload da Kiwify de forma confiável
@@ -403,7 +980,8 @@ export async function sendPurchaseEventViaWebhook(
   eventSourceUrl: string,
   eventId: string,
   eventTime: number, // event_time específico da compra
-  trackingParametersFromWebhook?: { [key: string]: string } // UTMs e outros do webhook
+  trackingParametersFromWebhook?: { [key: string]: string }, // UTMs e outros do webhook
+  options?: SendServerEventOptions // Ex.: usar IP/UA do comprador vindos no payload
 ) {
   return sendServerEvent(
     'Purchase',
@@ -413,6 +991,7 @@ export async function sendPurchaseEventViaWebhook(
     eventSourceUrl,
     eventId,
     trackingParametersFromWebhook, // Passa os trackingParameters como urlParameters para sendServerEvent
-    eventTime // Passa o event_time_override
+    eventTime, // Passa o event_time_override
+    options
   );
 } 
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * FIRST-PARTY _fbp / _fbc COOKIES
+ *
+ * Lets the tracking routes create or refresh the Meta browser cookies with
+ * Set-Cookie headers. Cookies written by the pixel's JavaScript are capped at
+ * 7 days by Safari ITP and are missing entirely when the pixel is blocked;
+ * server-set first-party cookies on the store domain are not.
+ *
+ * - _fbp: fb.<subdomain_index>.<creation_time_ms>.<random number>
+ * - _fbc: fb.<subdomain_index>.<creation_time_ms>.<fbclid> (see lib/click-id.ts)
+ *
+ * Only active with FIRST_PARTY_COOKIES=on or the tenant's firstPartyCookies
+ * feature (lib/tenants.ts). The API must be served from the same site as the
+ * store (e.g. track.example.com for www.example.com) and the client must call
+ * it with credentials: 'include' for the browser to keep the cookies.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { randomInt } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { computeSubdomainIndex, extractFbclidFromUrl, resolveFbc, type FbcSource } from './click-id';
+import { allowsPersonalData, evaluateConsent } from './consent';
+import { isTenantFeatureEnabled, resolveTenant, type TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FbpSource = 'cookie' | 'client' | 'generated';
+
+export interface FirstPartyCookieValues {
+  fbp: string;
+  fbpSource: FbpSource;
+  fbc?: string;
+  fbcSource: FbcSource;
+  cookieDomain?: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const FIRST_PARTY_COOKIES_ENABLED = process.env.FIRST_PARTY_COOKIES === 'on';
+
+// e.g. ".example.com.br" to share the cookies between www. and the API subdomain.
+// Unset = host-only cookies on the API host. Tenants can override it with cookieDomain.
+const FIRST_PARTY_COOKIE_DOMAIN = process.env.FIRST_PARTY_COOKIE_DOMAIN || undefined;
+
+// Browsers cap cookie lifetime at 400 days
+const FIRST_PARTY_COOKIE_MAX_AGE_DAYS = Math.min(Number(process.env.FIRST_PARTY_COOKIE_MAX_AGE_DAYS) || 390, 400);
+
+const FBP_PATTERN = /^fb\.\d+\.\d{10,13}\.\d+$/;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Returns true when the value is in Meta's _fbp format
+ */
+export function isValidFbp(value: unknown): value is string {
+  return typeof value === 'string' && FBP_PATTERN.test(value);
+}
+
+/**
+ * Domain of the tenant's _fbp/_fbc cookies (undefined = host-only)
+ */
+export function getFirstPartyCookieDomain(tenant: TenantConfig | null | undefined): string | undefined {
+  return tenant?.cookieDomain || FIRST_PARTY_COOKIE_DOMAIN;
+}
+
+/**
+ * Returns true when the tenant of the request uses server-set cookies
+ */
+export function isFirstPartyCookiesEnabled(request: NextRequest): boolean {
+  return isTenantFeatureEnabled(resolveTenant(request), 'firstPartyCookies', FIRST_PARTY_COOKIES_ENABLED);
+}
+
+/**
+ * Extra CORS header required for the browser to accept Set-Cookie on cross-origin calls
+ */
+export function getFirstPartyCookieCorsHeaders(request: NextRequest): Record<string, string> {
+  return isFirstPartyCookiesEnabled(request) ? { 'Access-Control-Allow-Credentials': 'true' } : {};
+}
+
+/**
+ * Generates a new _fbp value the same way the pixel does
+ */
+export function generateFbp(
+  creationTime: number = Date.now(),
+  subdomainIndex: number = computeSubdomainIndex(FIRST_PARTY_COOKIE_DOMAIN)
+): string {
+  return `fb.${subdomainIndex}.${Math.floor(creationTime)}.${randomInt(1_000_000_000, 2_147_483_647)}`;
+}
+
+/**
+ * Picks the _fbp/_fbc values to send with the event and to write back as cookies.
+ * Returns null when first-party cookies are disabled for the tenant or the
+ * visitor has not consented to marketing cookies (lib/consent.ts).
+ */
+export function prepareFirstPartyCookies(
+  request: NextRequest,
+  userData: { fbp?: string; fbc?: string } | undefined,
+  urlParameters?: Record<string, unknown>,
+  eventSourceUrl?: string
+): FirstPartyCookieValues | null {
+  if (!isFirstPartyCookiesEnabled(request)) return null;
+  if (!allowsPersonalData(evaluateConsent(request, resolveTenant(request)))) return null;
+
+  const cookieDomain = getFirstPartyCookieDomain(resolveTenant(request));
+  const subdomainIndex = computeSubdomainIndex(cookieDomain);
+
+  const fbpFromCookie = request.cookies.get('_fbp')?.value;
+  let fbp: string;
+  let fbpSource: FbpSource;
+  if (isValidFbp(fbpFromCookie)) {
+    fbp = fbpFromCookie;
+    fbpSource = 'cookie';
+  } else if (isValidFbp(userData?.fbp)) {
+    fbp = userData!.fbp!;
+    fbpSource = 'client';
+  } else {
+    fbp = generateFbp(Date.now(), subdomainIndex);
+    fbpSource = 'generated';
+  }
+
+  const fbclid = typeof urlParameters?.fbclid === 'string' ? urlParameters.fbclid : extractFbclidFromUrl(eventSourceUrl);
+  const fbcResolution = resolveFbc({
+    existingFbc: userData?.fbc || request.cookies.get('_fbc')?.value,
+    fbclid,
+    subdomainIndex,
+  });
+
+  return { fbp, fbpSource, fbc: fbcResolution.fbc, fbcSource: fbcResolution.source, cookieDomain };
+}
+
+/**
+ * Adds the Set-Cookie headers for _fbp/_fbc to a route response
+ */
+export function withFirstPartyCookies<T extends NextResponse>(response: T, values: FirstPartyCookieValues | null): T {
+  if (!values) return response;
+
+  const cookieOptions = {
+    domain: values.cookieDomain,
+    path: '/',
+    maxAge: FIRST_PARTY_COOKIE_MAX_AGE_DAYS * 24 * 60 * 60,
+    sameSite: 'lax' as const,
+    secure: true,
+    // The pixel reads both cookies from JavaScript
+    httpOnly: false,
+  };
+
+  response.cookies.set('_fbp', values.fbp, cookieOptions);
+  if (values.fbc) {
+    response.cookies.set('_fbc', values.fbc, cookieOptions);
+  }
+  return response;
+}
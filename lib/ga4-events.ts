@@ -0,0 +1,248 @@
+/**
+ * GA4 MEASUREMENT PROTOCOL
+ *
+ * Destination adapter (lib/destination-adapters.ts) that sends the e-commerce
+ * events validated by the tracking routes to Google Analytics 4, so GA4 and
+ * Meta count the same events:
+ *
+ *   ViewContent -> view_item, AddToCart -> add_to_cart,
+ *   InitiateCheckout -> begin_checkout, AddPaymentInfo -> add_payment_info,
+ *   Purchase -> purchase (plus add_to_wishlist, search, generate_lead, sign_up)
+ *
+ * Events without a GA4 equivalent (e.g. PageView, which gtag already collects)
+ * are not sent. `contents` become GA4 items[] and client_id comes from the _ga
+ * cookie; requests without it (webhooks, blocked gtag) get a random client_id.
+ *
+ * Configured per tenant with `ga4` (lib/tenants.ts), or for the default tenant
+ * with GA4_MEASUREMENT_ID / GA4_API_SECRET.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { randomInt } from 'crypto';
+import type { NextRequest } from 'next/server';
+import type { CustomData, DestinationResult } from './fbevents';
+import type { AdapterEvent, DestinationAdapter } from './destination-adapters';
+import type { Ga4Destination, TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Ga4Item {
+  item_id: string;
+  item_name?: string;
+  item_brand?: string;
+  item_category?: string;
+  item_variant?: string;
+  price?: number;
+  quantity?: number;
+  coupon?: string;
+}
+
+export interface Ga4Event {
+  name: string;
+  params: {
+    [key: string]: unknown;
+    currency?: string;
+    value?: number;
+    transaction_id?: string;
+    items?: Ga4Item[];
+    engagement_time_msec?: number;
+  };
+}
+
+interface Ga4Request {
+  client_id: string;
+  user_id?: string;
+  timestamp_micros: number;
+  user_data?: { sha256_email_address?: string[] };
+  events: Ga4Event[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Overridable to point the adapter at a local mock server
+const GA4_API_BASE_URL = process.env.GA4_API_BASE_URL || 'https://www.google-analytics.com';
+const GA4_COLLECT_URL = `${GA4_API_BASE_URL}/mp/collect`;
+
+// Measurement Protocol limit per request
+export const MAX_GA4_EVENTS_PER_REQUEST = 25;
+
+// Meta event names with a GA4 recommended event; other events are not sent
+export const GA4_EVENT_NAMES: Record<string, string> = {
+  ViewContent: 'view_item',
+  AddToCart: 'add_to_cart',
+  InitiateCheckout: 'begin_checkout',
+  AddPaymentInfo: 'add_payment_info',
+  Purchase: 'purchase',
+  AddToWishlist: 'add_to_wishlist',
+  Search: 'search',
+  Lead: 'generate_lead',
+  CompleteRegistration: 'sign_up',
+};
+
+// _ga cookie: GA1.<domain level>.<random>.<first visit timestamp>
+const GA_COOKIE_PATTERN = /^GA\d\.\d+\.(\d+\.\d+)$/;
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+const generatedClientIds = new WeakMap<NextRequest, string>();
+
+/**
+ * client_id from the _ga cookie; a random one (shared by all events of the request) when missing
+ */
+export function getGa4ClientId(request: NextRequest): string {
+  const match = request.cookies.get('_ga')?.value.match(GA_COOKIE_PATTERN);
+  if (match) return match[1];
+
+  let clientId = generatedClientIds.get(request);
+  if (!clientId) {
+    clientId = `${randomInt(1_000_000_000, 2_147_483_647)}.${Math.floor(Date.now() / 1000)}`;
+    generatedClientIds.set(request, clientId);
+  }
+  return clientId;
+}
+
+function mapItems(customData: CustomData): Ga4Item[] | undefined {
+  if (customData.contents && customData.contents.length > 0) {
+    return customData.contents.map(item => ({
+      item_id: String(item.id),
+      ...(typeof item.title === 'string' && { item_name: item.title }),
+      ...(typeof item.brand === 'string' && { item_brand: item.brand }),
+      ...(typeof item.category === 'string' && { item_category: item.category }),
+      ...(typeof item.variant_id === 'string' && { item_variant: item.variant_id }),
+      ...(item.item_price !== undefined && { price: item.item_price }),
+      quantity: item.quantity,
+    }));
+  }
+  if (customData.content_ids && customData.content_ids.length > 0) {
+    return customData.content_ids.map(id => ({
+      item_id: String(id),
+      ...(customData.content_name && { item_name: customData.content_name }),
+      ...(customData.content_category && { item_category: customData.content_category }),
+      ...(customData.brand && { item_brand: customData.brand }),
+      ...(customData.variant_id && { item_variant: customData.variant_id }),
+    }));
+  }
+  return undefined;
+}
+
+/**
+ * Converts a built Meta event into a GA4 event. Returns null for events without a GA4 equivalent.
+ */
+export function toGa4Event(event: AdapterEvent): Ga4Event | null {
+  const name = GA4_EVENT_NAMES[event.payload.event_name];
+  if (!name) return null;
+
+  const customData: CustomData = event.payload.custom_data || {};
+  const items = mapItems(customData);
+  const coupon = customData.coupon_code || customData.coupon_codes?.[0];
+
+  return {
+    name,
+    params: {
+      ...(customData.currency && { currency: customData.currency }),
+      ...(customData.value !== undefined && { value: Number(customData.value) }),
+      ...(customData.order_id && { transaction_id: customData.order_id }),
+      ...(customData.shipping_cost !== undefined && { shipping: customData.shipping_cost }),
+      ...(customData.tax_amount !== undefined && { tax: customData.tax_amount }),
+      ...(coupon && { coupon }),
+      ...(customData.payment_method && { payment_type: customData.payment_method }),
+      ...(customData.search_string && { search_term: customData.search_string }),
+      ...(customData.registration_method && { method: customData.registration_method }),
+      ...(items && { items }),
+      ...(event.payload.event_source_url && { page_location: event.payload.event_source_url }),
+      // Required for the event to count towards active users
+      engagement_time_msec: 1,
+    },
+  };
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+async function postGa4Request(config: Ga4Destination, body: Ga4Request): Promise<{ ok: boolean; status: number }> {
+  const url = `${GA4_COLLECT_URL}?measurement_id=${encodeURIComponent(config.measurementId)}&api_secret=${encodeURIComponent(config.apiSecret)}`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  // The collect endpoint answers 2xx without a body and does not report invalid events
+  return { ok: response.ok, status: response.status };
+}
+
+async function sendGa4Events(tenant: TenantConfig, events: AdapterEvent[]): Promise<DestinationResult[]> {
+  const config = tenant.ga4!;
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: 'ga4',
+    dataset_id: config.measurementId,
+    success: false,
+    ...outcome,
+  });
+
+  // One request per client_id, event time and user, as these are request-level fields
+  const results: DestinationResult[] = new Array(events.length);
+  const groups = new Map<string, number[]>();
+  events.forEach((event, index) => {
+    const userData = event.payload.user_data;
+    const key = [getGa4ClientId(event.request), event.payload.event_time, userData.external_id?.[0] || '', userData.em?.[0] || ''].join('|');
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  const requests: Array<{ indexes: number[]; body: Ga4Request }> = [];
+  groups.forEach(indexes => {
+    for (let start = 0; start < indexes.length; start += MAX_GA4_EVENTS_PER_REQUEST) {
+      const chunkIndexes = indexes.slice(start, start + MAX_GA4_EVENTS_PER_REQUEST);
+      const first = events[chunkIndexes[0]];
+      const userData = first.payload.user_data;
+      requests.push({
+        indexes: chunkIndexes,
+        body: {
+          client_id: getGa4ClientId(first.request),
+          ...(userData.external_id?.[0] && { user_id: String(userData.external_id[0]) }),
+          timestamp_micros: first.payload.event_time * 1_000_000,
+          ...(userData.em && userData.em.length > 0 && { user_data: { sha256_email_address: userData.em } }),
+          events: chunkIndexes.map(index => toGa4Event(events[index])!),
+        },
+      });
+    }
+  });
+
+  for (const { indexes, body } of requests) {
+    console.log(`[GA4_DEBUG] Sending ${body.events.length} event(s) to GA4 ${config.measurementId} (tenant: ${tenant.id}):`, JSON.stringify(body, null, 2));
+    try {
+      const { ok, status } = await postGa4Request(config, body);
+      if (!ok) {
+        console.error(`[GA4_DEBUG] GA4 rejected ${body.events.length} event(s) with HTTP ${status}`);
+      }
+      indexes.forEach(index => {
+        results[index] = ok ? toResult({ success: true }) : toResult({ error: `GA4 Measurement Protocol returned HTTP ${status}` });
+      });
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GA4_DEBUG] Failed to send ${body.events.length} event(s) to GA4:`, err.message);
+      indexes.forEach(index => {
+        results[index] = toResult({ error: err.message });
+      });
+    }
+  }
+  return results;
+}
+
+export const ga4Adapter: DestinationAdapter = {
+  name: 'ga4',
+  getDestinationId: tenant => tenant.ga4?.measurementId || null,
+  acceptsEvent: (tenant, eventName) =>
+    Boolean(GA4_EVENT_NAMES[eventName]) && (!tenant.ga4?.events || tenant.ga4.events.includes(eventName)),
+  send: sendGa4Events,
+};
@@ -0,0 +1,270 @@
+/**
+ * GOOGLE ADS ENHANCED CONVERSIONS
+ *
+ * Destination adapter (lib/destination-adapters.ts) that uploads events as
+ * Google Ads click conversions (ConversionUploadService.UploadClickConversions).
+ * Each conversion carries the gclid of the ad click, when known, and the
+ * SHA-256 emails already hashed for Meta as enhanced-conversion user
+ * identifiers. Phones are not sent: Meta's ph hash is computed from the digits
+ * only, while Google expects the E.164 number (with the leading +). Only events
+ * mapped to a conversion action are uploaded.
+ *
+ * Configured per tenant with `googleAds` (lib/tenants.ts). Access tokens are
+ * obtained from the OAuth refresh token and cached until they expire.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { findClickId } from './click-id';
+import type { DestinationResult } from './fbevents';
+import type { AdapterEvent, DestinationAdapter } from './destination-adapters';
+import type { GoogleAdsDestination, TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface GoogleAdsUserIdentifier {
+  hashedEmail?: string;
+  hashedPhoneNumber?: string;
+}
+
+export interface GoogleAdsClickConversion {
+  conversionAction: string;
+  conversionDateTime: string;
+  gclid?: string;
+  conversionValue?: number;
+  currencyCode?: string;
+  orderId?: string;
+  userIdentifiers?: GoogleAdsUserIdentifier[];
+}
+
+interface CachedAccessToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Errors of a partial failure upload; fieldPathElements point at the rejected conversion
+interface GoogleAdsPartialFailureError {
+  message?: string;
+  details?: Array<{
+    errors?: Array<{
+      message?: string;
+      location?: { fieldPathElements?: Array<{ fieldName?: string; index?: number }> };
+    }>;
+  }>;
+}
+
+interface GoogleAdsUploadResponse {
+  partialFailureError?: GoogleAdsPartialFailureError;
+  results?: unknown[];
+  error?: unknown;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Overridable to point the adapter at a local mock server
+const GOOGLE_ADS_API_BASE_URL = process.env.GOOGLE_ADS_API_BASE_URL || 'https://googleads.googleapis.com';
+const GOOGLE_OAUTH_TOKEN_URL = process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token';
+
+const GOOGLE_ADS_API_VERSION = 'v17';
+
+// UploadClickConversions limit per request
+export const MAX_GOOGLE_ADS_CONVERSIONS_PER_REQUEST = 2000;
+
+// Google Ads accepts up to five user identifiers per conversion
+const MAX_USER_IDENTIFIERS = 5;
+
+// Refresh access tokens this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+const accessTokens = new Map<string, CachedAccessToken>();
+
+async function getAccessToken(config: GoogleAdsDestination): Promise<string> {
+  const cached = accessTokens.get(config.refreshToken);
+  if (cached && cached.expiresAt > Date.now() + TOKEN_EXPIRY_MARGIN_MS) {
+    return cached.token;
+  }
+
+  const response = await fetch(GOOGLE_OAUTH_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      refresh_token: config.refreshToken,
+    }).toString(),
+  });
+  const responseData = await response.json();
+  if (!response.ok || !responseData.access_token) {
+    throw new Error(`Google OAuth token refresh failed: ${responseData.error_description || responseData.error || response.status}`);
+  }
+
+  accessTokens.set(config.refreshToken, {
+    token: responseData.access_token,
+    expiresAt: Date.now() + (Number(responseData.expires_in) || 3600) * 1000,
+  });
+  return responseData.access_token;
+}
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function normalizeCustomerId(customerId: string): string {
+  return customerId.replace(/-/g, '');
+}
+
+// "yyyy-mm-dd hh:mm:ss+00:00", as required by the API
+function formatConversionDateTime(eventTimeSeconds: number): string {
+  return `${new Date(eventTimeSeconds * 1000).toISOString().slice(0, 19).replace('T', ' ')}+00:00`;
+}
+
+/**
+ * Converts a built Meta event into a click conversion. Returns null when the
+ * event has neither a gclid nor a hashed email to match on.
+ */
+export function toGoogleAdsConversion(config: GoogleAdsDestination, event: AdapterEvent): GoogleAdsClickConversion | null {
+  const payload = event.payload;
+  const customData = payload.custom_data || {};
+  const userData = payload.user_data;
+
+  const gclid = findClickId({
+    urlParameters: event.urlParameters,
+    eventSourceUrl: payload.event_source_url,
+    // _gcl_aw cookie of the Google tag: GCL.<timestamp>.<gclid>
+    getCookie: name => event.request.cookies.get(name)?.value.split('.').slice(2).join('.'),
+  }, ['gclid'], '_gcl_aw');
+
+  // Emails only: userData.ph is hashed without the + of E.164 and would never match on Google
+  const userIdentifiers: GoogleAdsUserIdentifier[] = (userData.em || [])
+    .map(hashedEmail => ({ hashedEmail }))
+    .slice(0, MAX_USER_IDENTIFIERS);
+
+  if (!gclid && userIdentifiers.length === 0) return null;
+
+  return {
+    conversionAction: `customers/${normalizeCustomerId(config.customerId)}/conversionActions/${config.conversionActions[payload.event_name]}`,
+    conversionDateTime: formatConversionDateTime(payload.event_time),
+    ...(gclid && { gclid }),
+    ...(customData.value !== undefined && { conversionValue: Number(customData.value) }),
+    ...(customData.currency && { currencyCode: customData.currency }),
+    // Google deduplicates uploads by orderId; fall back to the Meta event_id
+    ...((customData.order_id || payload.event_id) && { orderId: customData.order_id || payload.event_id }),
+    ...(userIdentifiers.length > 0 && { userIdentifiers }),
+  };
+}
+
+// Maps partialFailureError details back to the index of each rejected conversion
+function getPartialFailures(partialFailureError: GoogleAdsPartialFailureError | undefined): Map<number, string> {
+  const failures = new Map<number, string>();
+  for (const detail of partialFailureError?.details || []) {
+    for (const error of detail?.errors || []) {
+      const element = (error?.location?.fieldPathElements || []).find(path => path.fieldName === 'conversions');
+      if (element && typeof element.index === 'number') {
+        failures.set(element.index, error.message || 'Conversion rejected');
+      }
+    }
+  }
+  return failures;
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+async function uploadClickConversions(
+  config: GoogleAdsDestination,
+  conversions: GoogleAdsClickConversion[]
+): Promise<{ ok: boolean; responseData: GoogleAdsUploadResponse }> {
+  const accessToken = await getAccessToken(config);
+  const customerId = normalizeCustomerId(config.customerId);
+  const response = await fetch(
+    `${GOOGLE_ADS_API_BASE_URL}/${GOOGLE_ADS_API_VERSION}/customers/${customerId}:uploadClickConversions`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+        'developer-token': config.developerToken,
+        ...(config.loginCustomerId && { 'login-customer-id': normalizeCustomerId(config.loginCustomerId) }),
+      },
+      body: JSON.stringify({ conversions, partialFailure: true }),
+    }
+  );
+  return { ok: response.ok, responseData: await response.json() };
+}
+
+async function sendGoogleAdsConversions(tenant: TenantConfig, events: AdapterEvent[]): Promise<DestinationResult[]> {
+  const config = tenant.googleAds!;
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: 'google_ads',
+    dataset_id: normalizeCustomerId(config.customerId),
+    success: false,
+    ...outcome,
+  });
+
+  const results: DestinationResult[] = new Array(events.length);
+  const pending: Array<{ index: number; conversion: GoogleAdsClickConversion }> = [];
+  events.forEach((event, index) => {
+    const conversion = toGoogleAdsConversion(config, event);
+    if (conversion) {
+      pending.push({ index, conversion });
+    } else {
+      results[index] = toResult({ error: 'No gclid or hashed email to match the conversion on' });
+    }
+  });
+
+  for (let start = 0; start < pending.length; start += MAX_GOOGLE_ADS_CONVERSIONS_PER_REQUEST) {
+    const chunk = pending.slice(start, start + MAX_GOOGLE_ADS_CONVERSIONS_PER_REQUEST);
+    const conversions = chunk.map(item => item.conversion);
+    console.log(`[GOOGLE_ADS_DEBUG] Uploading ${conversions.length} conversion(s) to customer ${config.customerId} (tenant: ${tenant.id}):`, JSON.stringify(conversions, null, 2));
+
+    try {
+      const { ok, responseData } = await uploadClickConversions(config, conversions);
+      console.log(`[GOOGLE_ADS_DEBUG] Response from Google Ads for ${conversions.length} conversion(s):`, JSON.stringify(responseData, null, 2));
+
+      if (!ok) {
+        console.error(`[GOOGLE_ADS_DEBUG] Google Ads rejected ${conversions.length} conversion(s):`, responseData);
+        chunk.forEach(item => {
+          results[item.index] = toResult({ error: responseData?.error || responseData });
+        });
+        continue;
+      }
+
+      const { partialFailureError } = responseData;
+      const failures = getPartialFailures(partialFailureError);
+      const unattributedFailure = partialFailureError && failures.size === 0;
+      chunk.forEach((item, position) => {
+        const failure = failures.get(position);
+        results[item.index] = failure || unattributedFailure
+          ? toResult({ error: failure || partialFailureError?.message })
+          : toResult({ success: true });
+      });
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GOOGLE_ADS_DEBUG] Failed to upload ${conversions.length} conversion(s) to Google Ads:`, err.message);
+      chunk.forEach(item => {
+        results[item.index] = toResult({ error: err.message });
+      });
+    }
+  }
+  return results;
+}
+
+export const googleAdsAdapter: DestinationAdapter = {
+  name: 'google_ads',
+  getDestinationId: tenant => (tenant.googleAds ? normalizeCustomerId(tenant.googleAds.customerId) : null),
+  acceptsEvent: (tenant, eventName) => Boolean(tenant.googleAds?.conversionActions[eventName]),
+  send: sendGoogleAdsConversions,
+};
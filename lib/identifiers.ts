@@ -0,0 +1,29 @@
+/**
+ * IDENTIFIER HASHING
+ *
+ * SHA-256 helpers for the destination adapters. Meta's hashUserData
+ * (lib/fbevents.ts) already hashes em, ph and the other personal fields, but
+ * leaves external_id in clear text, which TikTok, Pinterest and Snapchat want hashed.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { createHash } from 'crypto';
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Returns true when the value already is a lowercase SHA-256 hex digest
+ */
+export function isSha256(value: string): boolean {
+  return SHA256_PATTERN.test(value);
+}
+
+/**
+ * Normalises (trim, lowercase) and hashes an identifier; values that are already hashed are kept
+ */
+export function hashIdentifier(value: string): string {
+  const normalized = value.trim().toLowerCase();
+  return isSha256(normalized) ? normalized : createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,141 @@
+/**
+ * KIWIFY WEBHOOK HELPERS
+ *
+ * Types, signature verification and mapping of Kiwify order webhooks onto
+ * the normalised PlatformOrder used by lib/platform-webhooks.ts.
+ *
+ * Kiwify signs each delivery with HMAC-SHA1 (hex) of the raw body using the
+ * webhook token, sent as the `signature` query parameter.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { UserData } from './fbevents';
+import { verifyHmacSignature } from './webhook-signatures';
+import {
+  mapPlatformPaymentMethod,
+  parsePlatformDate,
+  pickTrackingParameters,
+  splitFullName,
+  type PlatformOrder,
+  type PlatformOrderStatus,
+} from './platform-webhooks';
+
+// =============================================================================
+// KIWIFY PAYLOAD TYPES (only the fields we consume)
+// =============================================================================
+
+export interface KiwifyWebhookPayload {
+  order_id: string;
+  order_ref?: string;
+  order_status?: string;
+  webhook_event_type?: string;
+  payment_method?: string;
+  checkout_link?: string;
+  created_at?: string;
+  updated_at?: string;
+  approved_date?: string | null;
+  refunded_at?: string | null;
+  Product?: {
+    product_id?: string;
+    product_name?: string;
+  };
+  Customer?: {
+    full_name?: string;
+    first_name?: string;
+    email?: string;
+    mobile?: string;
+    city?: string;
+    state?: string;
+    zipcode?: string;
+    ip?: string;
+  };
+  Commissions?: {
+    charge_amount?: number | string; // in cents
+    product_base_price?: number | string; // in cents
+    currency?: string;
+  };
+  TrackingParameters?: Record<string, string | null>;
+}
+
+// =============================================================================
+// SIGNATURE VERIFICATION
+// =============================================================================
+
+/**
+ * Verifies the `signature` query parameter (HMAC-SHA1 hex of the raw body)
+ */
+export async function verifyKiwifyWebhook(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): Promise<boolean> {
+  return verifyHmacSignature(rawBody, signature, secret, { algorithm: 'SHA-1', encoding: 'hex' });
+}
+
+// =============================================================================
+// MAPPERS
+// =============================================================================
+
+/**
+ * Maps Kiwify order_status / webhook_event_type onto the shared status set
+ */
+export function mapKiwifyStatus(payload: KiwifyWebhookPayload): PlatformOrderStatus {
+  const status = (payload.order_status || '').toLowerCase();
+  const eventType = (payload.webhook_event_type || '').toLowerCase();
+
+  if (status === 'paid' || eventType === 'order_approved') return 'paid';
+  if (status === 'refunded' || eventType === 'order_refunded') return 'refunded';
+  if (status === 'chargedback' || eventType === 'chargeback') return 'chargeback';
+  if (status === 'waiting_payment' || eventType === 'billet_created' || eventType === 'pix_created') return 'waiting_payment';
+  if (status === 'refused' || eventType === 'order_rejected') return 'refused';
+  return 'unknown';
+}
+
+function centsToAmount(value: number | string | undefined): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.round(parsed) / 100 : 0;
+}
+
+/**
+ * Normalises a Kiwify webhook payload
+ */
+export function mapKiwifyOrder(payload: KiwifyWebhookPayload): PlatformOrder {
+  const status = mapKiwifyStatus(payload);
+  const customer = payload.Customer || {};
+  const { firstName, lastName } = splitFullName(customer.full_name);
+  const fn = customer.first_name || firstName;
+
+  const userData: UserData = {
+    ...(customer.email && { em: [customer.email] }),
+    ...(customer.mobile && { ph: [customer.mobile] }),
+    ...(fn && { fn: [fn] }),
+    ...(lastName && { ln: [lastName] }),
+    ...(customer.city && { ct: [customer.city] }),
+    ...(customer.state && { st: [customer.state] }),
+    ...(customer.zipcode && { zp: [customer.zipcode] }),
+    ...(customer.ip && { client_ip_address: customer.ip }),
+  };
+
+  const eventDate = status === 'refunded'
+    ? payload.refunded_at || payload.updated_at
+    : status === 'paid'
+      ? payload.approved_date || payload.created_at
+      : payload.updated_at || payload.created_at;
+
+  return {
+    platform: 'kiwify',
+    orderId: String(payload.order_id),
+    status,
+    value: centsToAmount(payload.Commissions?.charge_amount ?? payload.Commissions?.product_base_price),
+    currency: payload.Commissions?.currency || 'BRL',
+    productId: String(payload.Product?.product_id || payload.order_ref || payload.order_id),
+    productName: payload.Product?.product_name,
+    paymentMethod: mapPlatformPaymentMethod(payload.payment_method),
+    eventTime: parsePlatformDate(eventDate),
+    eventSourceUrl: `https://pay.kiwify.com.br/${payload.checkout_link || ''}`,
+    userData,
+    trackingParameters: pickTrackingParameters(payload.TrackingParameters),
+  };
+}
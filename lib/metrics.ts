@@ -0,0 +1,68 @@
+/**
+ * METRICS
+ *
+ * In-process counters for things that never reach Meta and would otherwise
+ * only show up in the logs, e.g. events refused by the rate limiter
+ * (lib/rate-limit.ts) or filtered as bots (lib/traffic-classification.ts).
+ * Counters are per server instance and reset on restart; they are exposed by
+ * GET /api/metrics.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricCounter {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+// =============================================================================
+// COUNTERS
+// =============================================================================
+
+// "<name>|<sorted labels>" -> counter
+const counters = new Map<string, MetricCounter>();
+const startedAt = Date.now();
+
+function getCounterKey(name: string, labels: MetricLabels): string {
+  const labelPairs = Object.keys(labels).sort().map(label => `${label}=${labels[label]}`);
+  return `${name}|${labelPairs.join(',')}`;
+}
+
+/**
+ * Adds value (1 by default) to the counter with this name and labels
+ */
+export function incrementCounter(name: string, labels: MetricLabels = {}, value: number = 1): void {
+  const key = getCounterKey(name, labels);
+  const counter = counters.get(key);
+  if (counter) {
+    counter.value += value;
+  } else {
+    counters.set(key, { name, labels: { ...labels }, value });
+  }
+}
+
+/**
+ * Current value of every counter, sorted by name
+ */
+export function getCounters(): MetricCounter[] {
+  const snapshot: MetricCounter[] = [];
+  counters.forEach(counter => {
+    snapshot.push({ name: counter.name, labels: { ...counter.labels }, value: counter.value });
+  });
+  return snapshot.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Seconds since the counters started counting (server start)
+ */
+export function getMetricsUptimeSeconds(): number {
+  return Math.floor((Date.now() - startedAt) / 1000);
+}
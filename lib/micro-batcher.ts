@@ -0,0 +1,102 @@
+/**
+ * MICRO-BATCHER
+ *
+ * Collects items per key (e.g. per dataset) for a short window and flushes them
+ * together. A buffer is flushed when it reaches maxBatchSize items or when the
+ * first buffered item has waited maxWaitMs, whichever comes first. Each caller
+ * gets back the result at its own position in the flushed batch.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MicroBatcherOptions<T, R> {
+  maxBatchSize: number;
+  maxWaitMs: number;
+  // Must resolve with exactly one result per item, in the same order
+  flush: (key: string, items: T[]) => Promise<R[]>;
+}
+
+export interface MicroBatcher<T, R> {
+  add(key: string, item: T): Promise<R>;
+  flushAll(): Promise<void>;
+  pendingCount(): number;
+}
+
+interface PendingItem<T, R> {
+  item: T;
+  resolve: (result: R) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Buffer<T, R> {
+  items: PendingItem<T, R>[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Creates a keyed micro-batcher
+ */
+export function createMicroBatcher<T, R>(options: MicroBatcherOptions<T, R>): MicroBatcher<T, R> {
+  const maxBatchSize = Math.max(1, options.maxBatchSize);
+  const buffers = new Map<string, Buffer<T, R>>();
+
+  const flushKey = async (key: string): Promise<void> => {
+    const buffer = buffers.get(key);
+    if (!buffer) return;
+    buffers.delete(key);
+    if (buffer.timer) clearTimeout(buffer.timer);
+
+    const pending = buffer.items;
+    try {
+      const results = await options.flush(key, pending.map(entry => entry.item));
+      if (results.length !== pending.length) {
+        throw new Error(`Micro-batch flush returned ${results.length} results for ${pending.length} items`);
+      }
+      pending.forEach((entry, index) => entry.resolve(results[index]));
+    } catch (error) {
+      pending.forEach(entry => entry.reject(error));
+    }
+  };
+
+  return {
+    add(key, item) {
+      return new Promise<R>((resolve, reject) => {
+        let buffer = buffers.get(key);
+        if (!buffer) {
+          buffer = { items: [], timer: null };
+          buffers.set(key, buffer);
+        }
+        buffer.items.push({ item, resolve, reject });
+
+        if (buffer.items.length >= maxBatchSize) {
+          void flushKey(key);
+        } else if (!buffer.timer) {
+          buffer.timer = setTimeout(() => void flushKey(key), options.maxWaitMs);
+        }
+      });
+    },
+
+    async flushAll() {
+      const keys: string[] = [];
+      buffers.forEach((_buffer, key) => keys.push(key));
+      await Promise.all(keys.map(flushKey));
+    },
+
+    pendingCount() {
+      let count = 0;
+      buffers.forEach(buffer => {
+        count += buffer.items.length;
+      });
+      return count;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * ALLOWED ORIGINS
+ *
+ * Matching of browser origins against the allowed origins of a tenant
+ * (lib/tenants.ts) or ALLOWED_ORIGIN (lib/config.ts). An entry is either an
+ * exact origin or a wildcard-subdomain pattern:
+ *
+ * - https://www.store.com         only this origin
+ * - https://*.myshopify.com       any subdomain (one or more labels), not the apex
+ * - https://*.vercel.app:8443     the port must match as well
+ *
+ * A bare "*" is not accepted: the API sends credentials (first-party cookies)
+ * and must never answer every origin.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const ORIGIN_PATTERN = /^https?:\/\/(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d+)?$/;
+
+const patternCache = new Map<string, RegExp>();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function normalizeOrigin(origin: string): string {
+  const trimmed = origin.trim().toLowerCase();
+  return trimmed.endsWith('/') ? trimmed.slice(0, -1) : trimmed;
+}
+
+/**
+ * Returns true for an exact origin or a wildcard-subdomain pattern
+ */
+export function isValidAllowedOrigin(value: string): boolean {
+  return ORIGIN_PATTERN.test(normalizeOrigin(value));
+}
+
+function toOriginRegExp(pattern: string): RegExp {
+  let regExp = patternCache.get(pattern);
+  if (!regExp) {
+    const [scheme, host] = pattern.split('://*.');
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    regExp = new RegExp(`^${escape(scheme)}://([a-z0-9-]+\\.)+${escape(host)}$`);
+    patternCache.set(pattern, regExp);
+  }
+  return regExp;
+}
+
+/**
+ * Returns true when the origin matches one of the allowed origins or patterns
+ */
+export function matchesAllowedOrigin(origin: string | null | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return false;
+  const normalized = normalizeOrigin(origin);
+  return allowedOrigins.some(allowed => {
+    const entry = normalizeOrigin(allowed);
+    return entry.includes('://*.') ? toOriginRegExp(entry).test(normalized) : entry === normalized;
+  });
+}
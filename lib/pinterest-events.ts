@@ -0,0 +1,196 @@
+/**
+ * PINTEREST CONVERSIONS API
+ *
+ * Destination adapter (lib/destination-adapters.ts) for the Pinterest
+ * Conversions API (v5). Pinterest normalises and hashes em/ph exactly like
+ * Meta, so the hashed user_data is reused as-is; external_id is hashed here
+ * and the epik click ID is passed through from urlParameters or the _epik cookie.
+ *
+ * Configured per tenant with `pinterest` (lib/tenants.ts).
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { findClickId } from './click-id';
+import { hashIdentifier } from './identifiers';
+import type { CustomData, DestinationResult } from './fbevents';
+import type { AdapterEvent, DestinationAdapter } from './destination-adapters';
+import type { PinterestDestination, TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PinterestEvent {
+  event_name: string;
+  action_source: 'web';
+  event_time: number;
+  event_id?: string;
+  event_source_url?: string;
+  user_data: {
+    em?: string[];
+    ph?: string[];
+    external_id?: string[];
+    client_ip_address?: string;
+    client_user_agent?: string;
+    click_id?: string;
+  };
+  custom_data?: {
+    currency?: string;
+    value?: string; // Pinterest expects monetary values as strings
+    content_ids?: string[];
+    contents?: Array<{ id?: string; item_price?: string; quantity?: number }>;
+    num_items?: number;
+    order_id?: string;
+    search_string?: string;
+  };
+}
+
+// Conversions API answer: one status per event, in request order
+interface PinterestResponse {
+  num_events_received?: number;
+  num_events_processed?: number;
+  events?: Array<{ status?: string; error_message?: string; warning_message?: string }>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Overridable to point the adapter at a local mock server
+const PINTEREST_API_BASE_URL = process.env.PINTEREST_API_BASE_URL || 'https://api.pinterest.com';
+
+export const MAX_PINTEREST_EVENTS_PER_REQUEST = 1000;
+
+// Meta event names with a Pinterest standard event; other events are sent as "custom"
+export const PINTEREST_EVENT_NAMES: Record<string, string> = {
+  PageView: 'page_visit',
+  ViewContent: 'page_visit',
+  AddToCart: 'add_to_cart',
+  Purchase: 'checkout',
+  CompleteRegistration: 'signup',
+  Lead: 'lead',
+  Search: 'search',
+};
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function mapCustomData(customData: CustomData = {}): PinterestEvent['custom_data'] | undefined {
+  const mapped: NonNullable<PinterestEvent['custom_data']> = {
+    ...(customData.currency && { currency: customData.currency }),
+    ...(customData.value !== undefined && { value: String(customData.value) }),
+    ...(customData.content_ids && customData.content_ids.length > 0 && { content_ids: customData.content_ids.map(String) }),
+    ...(customData.contents && customData.contents.length > 0 && {
+      contents: customData.contents.map(item => ({
+        id: String(item.id),
+        ...(item.item_price !== undefined && { item_price: String(item.item_price) }),
+        quantity: item.quantity,
+      })),
+    }),
+    ...(customData.num_items !== undefined && { num_items: customData.num_items }),
+    ...(customData.order_id && { order_id: customData.order_id }),
+    ...(customData.search_string && { search_string: customData.search_string }),
+  };
+  return Object.keys(mapped).length > 0 ? mapped : undefined;
+}
+
+/**
+ * Converts a built Meta event into a Pinterest Conversions API event
+ */
+export function toPinterestEvent(event: AdapterEvent): PinterestEvent {
+  const payload = event.payload;
+  const userData = payload.user_data;
+  const epik = findClickId({
+    urlParameters: event.urlParameters,
+    eventSourceUrl: payload.event_source_url,
+    getCookie: name => event.request.cookies.get(name)?.value,
+  }, ['epik'], '_epik');
+  const customData = mapCustomData(payload.custom_data);
+
+  return {
+    event_name: PINTEREST_EVENT_NAMES[payload.event_name] || 'custom',
+    action_source: 'web',
+    event_time: payload.event_time,
+    ...(payload.event_id && { event_id: payload.event_id }),
+    ...(payload.event_source_url && { event_source_url: payload.event_source_url }),
+    user_data: {
+      ...(userData.em && { em: userData.em }),
+      ...(userData.ph && { ph: userData.ph }),
+      ...(userData.external_id && { external_id: userData.external_id.map(id => hashIdentifier(String(id))) }),
+      ...(userData.client_ip_address && { client_ip_address: userData.client_ip_address }),
+      ...(userData.client_user_agent && { client_user_agent: userData.client_user_agent }),
+      ...(epik && { click_id: epik }),
+    },
+    ...(customData && { custom_data: customData }),
+  };
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+async function postPinterestEvents(config: PinterestDestination, events: PinterestEvent[]): Promise<{ ok: boolean; responseData: PinterestResponse }> {
+  const response = await fetch(
+    `${PINTEREST_API_BASE_URL}/v5/ad_accounts/${config.adAccountId}/events${config.testMode ? '?test=true' : ''}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.accessToken}`,
+      },
+      body: JSON.stringify({ data: events }),
+    }
+  );
+  return { ok: response.ok, responseData: await response.json() };
+}
+
+async function sendPinterestEvents(tenant: TenantConfig, events: AdapterEvent[]): Promise<DestinationResult[]> {
+  const config = tenant.pinterest!;
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: 'pinterest',
+    dataset_id: config.adAccountId,
+    success: false,
+    ...outcome,
+  });
+
+  const results: DestinationResult[] = [];
+  for (let start = 0; start < events.length; start += MAX_PINTEREST_EVENTS_PER_REQUEST) {
+    const chunk = events.slice(start, start + MAX_PINTEREST_EVENTS_PER_REQUEST).map(toPinterestEvent);
+    console.log(`[PINTEREST_DEBUG] Sending ${chunk.length} event(s) to Pinterest ad account ${config.adAccountId} (tenant: ${tenant.id}):`, JSON.stringify(chunk, null, 2));
+
+    try {
+      const { ok, responseData } = await postPinterestEvents(config, chunk);
+      console.log(`[PINTEREST_DEBUG] Response from Pinterest for ${chunk.length} event(s):`, JSON.stringify(responseData, null, 2));
+
+      if (!ok) {
+        console.error(`[PINTEREST_DEBUG] Pinterest rejected ${chunk.length} event(s):`, responseData);
+        results.push(...chunk.map(() => toResult({ error: responseData })));
+        continue;
+      }
+
+      // One status per event, in request order
+      results.push(...chunk.map((_, position) => {
+        const status = responseData.events?.[position];
+        if (!status || status.status === 'processed') {
+          return toResult({ success: true });
+        }
+        return toResult({ error: status.error_message || status });
+      }));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[PINTEREST_DEBUG] Failed to send ${chunk.length} event(s) to Pinterest:`, err.message);
+      results.push(...chunk.map(() => toResult({ error: err.message })));
+    }
+  }
+  return results;
+}
+
+export const pinterestAdapter: DestinationAdapter = {
+  name: 'pinterest',
+  getDestinationId: tenant => tenant.pinterest?.adAccountId || null,
+  acceptsEvent: (tenant, eventName) => !tenant.pinterest?.events || tenant.pinterest.events.includes(eventName),
+  send: sendPinterestEvents,
+};
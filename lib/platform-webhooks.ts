@@ -0,0 +1,285 @@
+/**
+ * CHECKOUT PLATFORM WEBHOOKS
+ *
+ * Shared logic for checkout platforms that notify us about orders of digital
+ * products (Kiwify, Cakto, ...). Each platform module normalises its payload
+ * into a PlatformOrder; this module decides which Facebook event the order
+ * status maps to, validates the data and sends it.
+ *
+ * Status mapping:
+ * - paid            -> Purchase
+ * - refunded        -> Refund (REFUND_EVENT_NAME), negative value
+ * - chargeback      -> Refund (REFUND_EVENT_NAME), negative value, adjustment_type "chargeback"
+ * - waiting_payment -> WaitingPayment (custom event for generated Pix/boleto)
+ * - refused/unknown -> not tracked
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { NextRequest } from 'next/server';
+import { sendPurchaseEventViaWebhook, sendServerEvent } from './fbevents';
+import type { UserData } from './fbevents';
+import { getRefundEventName, sendEcommerceRefund } from './ecommerce-events';
+import {
+  PurchaseDataSchema,
+  RefundDataSchema,
+  buildChargebackEventId,
+  buildPurchaseEventId,
+  buildRefundEventId,
+  buildWaitingPaymentEventId,
+  validateEcommerceData,
+  type EcommercePurchaseData,
+  type EcommerceRefundData,
+  type PaymentMethod,
+  type ValidationIssue,
+} from './ecommerce-types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PlatformOrderStatus = 'paid' | 'refunded' | 'chargeback' | 'waiting_payment' | 'refused' | 'unknown';
+
+export interface PlatformOrder {
+  platform: string;
+  orderId: string;
+  status: PlatformOrderStatus;
+  value: number;
+  currency: string;
+  productId: string;
+  productName?: string;
+  paymentMethod?: PaymentMethod;
+  eventTime?: number;
+  eventSourceUrl?: string;
+  userData: UserData;
+  trackingParameters: { [key: string]: string };
+}
+
+export interface PlatformEventOutcome {
+  tracked: boolean;
+  eventName?: string;
+  eventId: string;
+  result?: Awaited<ReturnType<typeof sendServerEvent>>;
+  errors?: ValidationIssue[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const WAITING_PAYMENT_EVENT_NAME = 'WaitingPayment';
+
+/**
+ * Tracking parameters forwarded by checkout platforms (UTMs, src/sck, click IDs)
+ */
+export const PLATFORM_TRACKING_PARAMETER_KEYS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_content',
+  'utm_term',
+  'utm_id',
+  'src',
+  'sck',
+  's1',
+  's2',
+  's3',
+  'fbclid',
+] as const;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Picks the non-empty tracking parameters from a platform payload object
+ */
+export function pickTrackingParameters(source: Record<string, unknown> | null | undefined): { [key: string]: string } {
+  const parameters: { [key: string]: string } = {};
+  if (!source) return parameters;
+
+  PLATFORM_TRACKING_PARAMETER_KEYS.forEach(key => {
+    const value = source[key];
+    if (typeof value === 'string' && value.trim() && value !== 'null') {
+      parameters[key] = value.trim();
+    } else if (typeof value === 'number') {
+      parameters[key] = String(value);
+    }
+  });
+
+  return parameters;
+}
+
+/**
+ * Parses platform dates into a Unix event_time. Dates without an offset
+ * ("2024-05-10 14:32") are interpreted in the platform timezone (BRT by default).
+ */
+export function parsePlatformDate(value: string | null | undefined, defaultUtcOffset: string = '-03:00'): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const isoCandidate = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?(\.\d+)?$/.test(trimmed)
+    ? `${trimmed.replace(' ', 'T')}${defaultUtcOffset}`
+    : trimmed;
+  const parsed = Date.parse(isoCandidate);
+  return Number.isNaN(parsed) ? undefined : Math.floor(parsed / 1000);
+}
+
+/**
+ * Maps payment method labels used by checkout platforms onto PaymentMethodEnum
+ */
+export function mapPlatformPaymentMethod(raw: string | null | undefined): PaymentMethod | undefined {
+  if (!raw) return undefined;
+  const method = raw.toLowerCase();
+  if (method.includes('pix')) return 'pix';
+  if (method.includes('boleto') || method.includes('billet')) return 'boleto';
+  if (method.includes('debit')) return 'debit_card';
+  if (method.includes('credit') || method.includes('card')) return 'credit_card';
+  if (method.includes('paypal')) return 'paypal';
+  if (method.includes('apple')) return 'apple_pay';
+  if (method.includes('google')) return 'google_pay';
+  return 'other';
+}
+
+/**
+ * Splits a full name into first and last name
+ */
+export function splitFullName(fullName: string | null | undefined): { firstName?: string; lastName?: string } {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return {};
+  return {
+    firstName: parts[0],
+    ...(parts.length > 1 && { lastName: parts.slice(1).join(' ') }),
+  };
+}
+
+function buildProductContents(order: PlatformOrder) {
+  return [{
+    id: order.productId,
+    quantity: 1,
+    item_price: order.value,
+    ...(order.productName && { title: order.productName }),
+  }];
+}
+
+/**
+ * Builds Purchase custom_data for a single digital product order
+ */
+export function buildPlatformPurchaseData(order: PlatformOrder): EcommercePurchaseData {
+  return {
+    order_id: order.orderId,
+    value: order.value,
+    currency: order.currency.toUpperCase(),
+    contents: buildProductContents(order),
+    num_items: 1,
+    content_type: 'product',
+    content_ids: [order.productId],
+    content_name: order.productName || `Product ${order.productId}`,
+    ...(order.paymentMethod && { payment_method: order.paymentMethod }),
+    payment_status: order.status === 'waiting_payment' ? 'pending' : 'completed',
+    delivery_category: 'digital',
+    order_source: 'website',
+  };
+}
+
+/**
+ * Builds negative-value custom_data for refunded or charged back orders
+ */
+export function buildPlatformRefundData(order: PlatformOrder): EcommerceRefundData {
+  return {
+    order_id: order.orderId,
+    value: -order.value,
+    refund_amount: order.value,
+    currency: order.currency.toUpperCase(),
+    contents: buildProductContents(order),
+    num_items: 1,
+    content_type: 'product',
+    content_ids: [order.productId],
+    adjustment_type: order.status === 'chargeback' ? 'chargeback' : 'refund',
+    payment_status: 'refunded',
+  };
+}
+
+// =============================================================================
+// DISPATCH
+// =============================================================================
+
+/**
+ * Sends the Facebook event that corresponds to the platform order status
+ */
+export async function sendPlatformOrderEvent(
+  request: NextRequest,
+  order: PlatformOrder
+): Promise<PlatformEventOutcome> {
+  const options = { preferUserDataClientInfo: true, serverToServer: true };
+
+  switch (order.status) {
+    case 'paid': {
+      const eventId = buildPurchaseEventId(order.orderId);
+      const validation = validateEcommerceData(PurchaseDataSchema, buildPlatformPurchaseData(order));
+      if (!validation.isValid) {
+        return { tracked: false, eventName: 'Purchase', eventId, errors: validation.errors };
+      }
+      const result = await sendPurchaseEventViaWebhook(
+        request,
+        order.userData,
+        validation.sanitizedData!,
+        order.eventSourceUrl!,
+        eventId,
+        order.eventTime ?? Math.floor(Date.now() / 1000),
+        order.trackingParameters,
+        options
+      );
+      return { tracked: true, eventName: 'Purchase', eventId, result };
+    }
+
+    case 'refunded':
+    case 'chargeback': {
+      const eventName = getRefundEventName();
+      const eventId = order.status === 'chargeback'
+        ? buildChargebackEventId(order.orderId)
+        : buildRefundEventId(order.orderId);
+      const validation = validateEcommerceData(RefundDataSchema, buildPlatformRefundData(order));
+      if (!validation.isValid) {
+        return { tracked: false, eventName, eventId, errors: validation.errors };
+      }
+      const result = await sendEcommerceRefund(
+        request,
+        order.userData,
+        validation.sanitizedData!,
+        order.eventSourceUrl,
+        eventId,
+        order.eventTime,
+        options
+      );
+      return { tracked: true, eventName, eventId, result };
+    }
+
+    case 'waiting_payment': {
+      const eventId = buildWaitingPaymentEventId(order.orderId);
+      const validation = validateEcommerceData(PurchaseDataSchema, buildPlatformPurchaseData(order));
+      if (!validation.isValid) {
+        return { tracked: false, eventName: WAITING_PAYMENT_EVENT_NAME, eventId, errors: validation.errors };
+      }
+      const result = await sendServerEvent(
+        WAITING_PAYMENT_EVENT_NAME,
+        request,
+        order.userData,
+        validation.sanitizedData!,
+        order.eventSourceUrl,
+        eventId,
+        order.trackingParameters,
+        order.eventTime,
+        options
+      );
+      return { tracked: true, eventName: WAITING_PAYMENT_EVENT_NAME, eventId, result };
+    }
+
+    default:
+      return {
+        tracked: false,
+        eventId: `${order.status}_${order.orderId}`,
+        errors: [{ path: 'status', code: 'untracked_status', message: `Order status "${order.status}" is not tracked` }],
+      };
+  }
+}
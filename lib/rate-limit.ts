@@ -0,0 +1,332 @@
+/**
+ * RATE LIMITING
+ *
+ * Every accepted /api/track/* event costs a Graph API call and an ipdata
+ * lookup, so with RATE_LIMIT_MODE=enforce each event takes a token from three
+ * token buckets, all scoped to the tenant and the event name:
+ *
+ * - ip:      per client IP (X-Forwarded-For / X-Real-IP)
+ * - session: per visitor session (_fbp cookie, then userData.fbp)
+ * - tenant:  shared by every visitor of the tenant (off unless configured)
+ *
+ * Quotas are requests per minute, and a bucket holds up to one minute worth of
+ * tokens so short bursts are allowed. Defaults can be changed per event with
+ * RATE_LIMIT_QUOTAS, e.g. {"*":{"ip":120},"PageView":{"ip":60,"session":30}},
+ * and tenants can override mode and quotas with `rateLimits` (lib/tenants.ts).
+ *
+ * Over-limit requests get 429 with Retry-After and are counted in the
+ * rate_limited_events metric (lib/metrics.ts) instead of being sent to Meta.
+ *
+ * - Pluggable storage (RateLimitStore): in-memory by default (per instance),
+ *   Redis via createRedisRateLimitStore to share the buckets between instances
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCorsHeaders } from './cors';
+import { incrementCounter } from './metrics';
+import {
+  DEFAULT_TENANT_ID,
+  RateLimitQuotasSchema,
+  resolveTenant,
+  type RateLimitQuota,
+  type TenantConfig,
+} from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RateLimitMode = 'off' | 'enforce';
+export type RateLimitScope = 'ip' | 'session' | 'tenant';
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  scope?: RateLimitScope; // Bucket that refused the event
+  retryAfterSeconds: number;
+}
+
+/**
+ * Storage backend contract. take must be atomic per key: refill the bucket for
+ * the elapsed time, then remove one token if there is one.
+ */
+export interface RateLimitStore {
+  take(key: string, perMinute: number, now: number): Promise<BucketResult>;
+}
+
+/**
+ * Subset of the ioredis / node-redis (legacy mode) client API used by the Redis store
+ */
+export interface RedisRateLimitClient {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const RATE_LIMIT_MODES: RateLimitMode[] = ['off', 'enforce'];
+
+const rawRateLimitMode = (process.env.RATE_LIMIT_MODE || 'off').toLowerCase() as RateLimitMode;
+const RATE_LIMIT_MODE: RateLimitMode = RATE_LIMIT_MODES.includes(rawRateLimitMode) ? rawRateLimitMode : 'off';
+
+// Requests per minute when neither RATE_LIMIT_QUOTAS nor the tenant set a quota
+const DEFAULT_QUOTA: Required<RateLimitQuota> = {
+  ip: 120,
+  session: 60,
+  tenant: 0,
+};
+
+const RATE_LIMIT_SCOPES: RateLimitScope[] = ['ip', 'session', 'tenant'];
+const MINUTE_MS = 60 * 1000;
+
+let globalQuotas: Record<string, RateLimitQuota> | null = null;
+
+/**
+ * Per-event quotas of RATE_LIMIT_QUOTAS (parsed once)
+ */
+function getGlobalQuotas(): Record<string, RateLimitQuota> {
+  if (!globalQuotas) {
+    if (!process.env.RATE_LIMIT_QUOTAS) {
+      globalQuotas = {};
+    } else {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(process.env.RATE_LIMIT_QUOTAS);
+      } catch (error) {
+        throw new Error(`Invalid rate limit configuration: RATE_LIMIT_QUOTAS is not valid JSON (${(error as Error).message})`);
+      }
+      const result = RateLimitQuotasSchema.safeParse(raw);
+      if (!result.success) {
+        const issues = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+        throw new Error(`Invalid rate limit configuration: ${issues}`);
+      }
+      globalQuotas = result.data;
+    }
+  }
+  return globalQuotas;
+}
+
+/**
+ * Rate limiting mode of a tenant, falling back to RATE_LIMIT_MODE
+ */
+export function getRateLimitMode(tenant: TenantConfig | null | undefined): RateLimitMode {
+  return tenant?.rateLimits?.mode || RATE_LIMIT_MODE;
+}
+
+/**
+ * Quota of an event for a tenant. Later layers win per scope: defaults,
+ * RATE_LIMIT_QUOTAS "*", RATE_LIMIT_QUOTAS[event], tenant "*", tenant [event].
+ */
+export function getRateLimitQuota(tenant: TenantConfig | null | undefined, eventName: string): Required<RateLimitQuota> {
+  const globals = getGlobalQuotas();
+  const overrides = tenant?.rateLimits?.quotas || {};
+  return {
+    ...DEFAULT_QUOTA,
+    ...globals['*'],
+    ...globals[eventName],
+    ...overrides['*'],
+    ...overrides[eventName],
+  };
+}
+
+// =============================================================================
+// MEMORY STORE
+// =============================================================================
+
+/**
+ * In-memory backend. Buckets are kept per server instance; idle buckets are
+ * full again after a minute and are pruned then.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  let lastPrune = 0;
+
+  const prune = (now: number) => {
+    if (now - lastPrune < MINUTE_MS) return;
+    lastPrune = now;
+    buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt >= MINUTE_MS) buckets.delete(key);
+    });
+  };
+
+  return {
+    async take(key, perMinute, now) {
+      prune(now);
+      const refillPerMs = perMinute / MINUTE_MS;
+      const bucket = buckets.get(key) || { tokens: perMinute, updatedAt: now };
+      bucket.tokens = Math.min(perMinute, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens < 1) {
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+      }
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    },
+  };
+}
+
+// =============================================================================
+// REDIS STORE
+// =============================================================================
+
+// Refill and take in one step; the bucket hash expires once it would be full again
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(bucket[1]) or capacity
+local updated = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * refill)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill))
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Redis backend shared by every instance. A Lua script refills and takes the
+ * token atomically, so concurrent requests cannot overdraw a bucket.
+ */
+export function createRedisRateLimitStore(client: RedisRateLimitClient, keyPrefix: string = 'capi:rate-limit'): RateLimitStore {
+  return {
+    async take(key, perMinute, now) {
+      const refillPerMs = perMinute / MINUTE_MS;
+      const [allowed, rawTokens] = await client.eval(
+        TAKE_TOKEN_SCRIPT, 1, `${keyPrefix}:${key}`, perMinute, refillPerMs, now
+      ) as [number, string];
+      const tokens = Number(rawTokens);
+
+      if (Number(allowed) !== 1) {
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+      }
+      return { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 };
+    },
+  };
+}
+
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Returns the active store (in-memory unless another one was registered)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createMemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Registers another storage backend, e.g. setRateLimitStore(createRedisRateLimitStore(redis))
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+/**
+ * Client IP the ip bucket is keyed by (same headers lib/fbevents.ts sends to Meta)
+ */
+export function getRateLimitClientIp(request: NextRequest): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || request.ip
+    || null;
+}
+
+/**
+ * Takes one token for an event from the ip, session and tenant buckets. The
+ * first empty bucket refuses the event and is recorded in the metrics.
+ * Always allowed when the tenant's mode is off.
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  eventName: string,
+  sessionId?: string | null,
+  now: number = Date.now()
+): Promise<RateLimitDecision> {
+  const tenant = resolveTenant(request);
+  if (getRateLimitMode(tenant) === 'off') {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  const tenantId = tenant?.id || DEFAULT_TENANT_ID;
+  const quota = getRateLimitQuota(tenant, eventName);
+  const subjects: Record<RateLimitScope, string | null | undefined> = {
+    ip: getRateLimitClientIp(request),
+    session: sessionId,
+    tenant: tenantId,
+  };
+
+  const store = getRateLimitStore();
+  for (const scope of RATE_LIMIT_SCOPES) {
+    const subject = subjects[scope];
+    if (!quota[scope] || !subject) continue;
+
+    const bucket = await store.take(`${tenantId}:${eventName}:${scope}:${subject}`, quota[scope], now);
+    if (!bucket.allowed) {
+      incrementCounter('rate_limited_events', { tenant: tenantId, event: eventName, scope });
+      return { allowed: false, scope, retryAfterSeconds: Math.max(1, Math.ceil(bucket.retryAfterMs / 1000)) };
+    }
+  }
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Visitor session of a single-event request: the _fbp cookie, then userData.fbp of the body
+ */
+async function getRequestSessionId(request: NextRequest): Promise<string | null> {
+  const fbpCookie = request.cookies.get('_fbp')?.value;
+  if (fbpCookie) return fbpCookie;
+  try {
+    // The route reads the body afterwards, so it is parsed from a copy
+    const body = await request.clone().json();
+    return typeof body?.userData?.fbp === 'string' && body.userData.fbp ? body.userData.fbp : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns a 429 response with Retry-After when the event is over one of its
+ * quotas, or null when the request may proceed
+ */
+export async function rejectRateLimited(request: NextRequest, eventName: string, logTag: string): Promise<NextResponse | null> {
+  if (getRateLimitMode(resolveTenant(request)) === 'off') return null;
+
+  const decision = await checkRateLimit(request, eventName, await getRequestSessionId(request));
+  if (decision.allowed) return null;
+
+  console.warn(`[${new Date().toISOString()}] [${logTag}] 🚦 ${eventName} over the ${decision.scope} rate limit (IP: ${getRateLimitClientIp(request) || 'N/A'}). Retry after ${decision.retryAfterSeconds}s.`);
+  return NextResponse.json({
+    message: 'Too many requests',
+    retry_after: decision.retryAfterSeconds,
+    success: false
+  }, {
+    status: 429,
+    headers: {
+      ...getCorsHeaders(request),
+      'Retry-After': String(decision.retryAfterSeconds),
+      'Access-Control-Expose-Headers': 'Retry-After',
+    }
+  });
+}
@@ -0,0 +1,295 @@
+/**
+ * SIGNED CLIENT REQUESTS
+ *
+ * Stops forged events (e.g. a fake Purchase with an arbitrary value) from being
+ * posted straight to /api/track/*. With REQUEST_SIGNING=enforce every request
+ * must be signed:
+ *
+ * 1. The storefront gets a short-lived signing token tied to its session from
+ *    /api/proxy/signing-token (Shopify app proxy) or from its own backend
+ *    (issueSigningToken). The response holds the token and a session key.
+ * 2. Each request sends X-Capi-Token, X-Capi-Timestamp (Unix seconds), a fresh
+ *    random X-Capi-Nonce and X-Capi-Signature: hex HMAC-SHA256 of
+ *    "<timestamp>.<nonce>.<raw body>" with the session key.
+ * 3. The server derives the session key from the token and its secret, checks
+ *    the signature and expiry, and rejects nonces it has already seen.
+ *
+ * Purchase events can additionally carry an orderSignature computed by the
+ * store with PURCHASE_ORDER_SECRET over "<order_id>:<value>:<CURRENCY>"
+ * (value with two decimals), so the value cannot be changed on the way.
+ *
+ * Seen nonces are kept in memory: with several server instances, a replay
+ * routed to another instance is only stopped by the timestamp window.
+ * Tenants can override every setting with `requestSigning` (lib/tenants.ts).
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from './config';
+import { getCorsHeaders } from './cors';
+import { resolveTenant, type TenantConfig } from './tenants';
+import { safeCompare, verifyHmacSignature } from './webhook-signatures';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RequestSigningMode = 'off' | 'enforce';
+
+export interface RequestSigningPolicy {
+  mode: RequestSigningMode;
+  secret?: string;
+  orderSecret?: string;
+  appProxySecret?: string;
+}
+
+export interface SigningToken {
+  token: string;
+  key: string; // Session key the client signs its requests with
+  session_id: string;
+  expires_at: number; // Unix seconds
+}
+
+export interface SignatureCheck {
+  valid: boolean;
+  reason?: string;
+  sessionId?: string;
+}
+
+export interface OrderToSign {
+  order_id?: unknown;
+  value?: unknown;
+  currency?: unknown;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const SIGNING_TOKEN_HEADER = 'x-capi-token';
+export const SIGNING_TIMESTAMP_HEADER = 'x-capi-timestamp';
+export const SIGNING_NONCE_HEADER = 'x-capi-nonce';
+export const SIGNING_SIGNATURE_HEADER = 'x-capi-signature';
+
+const REQUEST_SIGNING_TOKEN_TTL_SECONDS = Number(process.env.REQUEST_SIGNING_TOKEN_TTL_SECONDS) || 60 * 60;
+const REQUEST_SIGNING_MAX_SKEW_SECONDS = Number(process.env.REQUEST_SIGNING_MAX_SKEW_SECONDS) || 5 * 60;
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// =============================================================================
+// POLICY
+// =============================================================================
+
+/**
+ * Signing settings of a tenant, falling back to the global configuration
+ */
+export function getRequestSigningPolicy(tenant: TenantConfig | null | undefined): RequestSigningPolicy {
+  const defaults = getConfig().requestSigning;
+  const overrides = tenant?.requestSigning || {};
+  return {
+    mode: overrides.mode || defaults.mode,
+    secret: overrides.secret || defaults.secret,
+    orderSecret: overrides.orderSecret || defaults.orderSecret,
+    appProxySecret: overrides.appProxySecret || defaults.appProxySecret,
+  };
+}
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+function hmacHex(secret: string, message: string): string {
+  return createHmac('sha256', secret).update(message).digest('hex');
+}
+
+/**
+ * Creates a signing token for a session. sessionId is replaced by a random ID
+ * when missing or not made of 8-128 letters, digits, "-" and "_".
+ */
+export function issueSigningToken(
+  secret: string,
+  sessionId?: string | null,
+  ttlSeconds: number = REQUEST_SIGNING_TOKEN_TTL_SECONDS,
+  now: number = Date.now()
+): SigningToken {
+  const session = sessionId && SESSION_ID_PATTERN.test(sessionId) ? sessionId : randomBytes(16).toString('hex');
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+  const claims = `${session}.${expiresAt}`;
+  return {
+    token: `${claims}.${hmacHex(secret, `token:${claims}`)}`,
+    key: hmacHex(secret, `key:${claims}`),
+    session_id: session,
+    expires_at: expiresAt,
+  };
+}
+
+/**
+ * Checks a token and returns its session and the session key
+ */
+async function readSigningToken(
+  secret: string,
+  token: string,
+  now: number
+): Promise<{ sessionId: string; key: string } | { error: string }> {
+  const [sessionId, expiresAt, signature, ...rest] = token.split('.');
+  if (!sessionId || !expiresAt || !signature || rest.length > 0 || !SESSION_ID_PATTERN.test(sessionId) || !/^\d+$/.test(expiresAt)) {
+    return { error: 'Malformed signing token' };
+  }
+
+  const claims = `${sessionId}.${expiresAt}`;
+  if (!await verifyHmacSignature(`token:${claims}`, signature, secret, { algorithm: 'SHA-256', encoding: 'hex' })) {
+    return { error: 'Invalid signing token' };
+  }
+  if (Number(expiresAt) < Math.floor(now / 1000)) {
+    return { error: 'Signing token expired' };
+  }
+  return { sessionId, key: hmacHex(secret, `key:${claims}`) };
+}
+
+// =============================================================================
+// REPLAY PROTECTION
+// =============================================================================
+
+// "<sessionId>:<nonce>" -> time (ms) after which the nonce may be forgotten
+const seenNonces = new Map<string, number>();
+let lastNoncePrune = 0;
+
+function pruneSeenNonces(now: number): void {
+  if (now - lastNoncePrune < 60_000) return;
+  lastNoncePrune = now;
+  seenNonces.forEach((expiresAt, nonce) => {
+    if (expiresAt <= now) seenNonces.delete(nonce);
+  });
+}
+
+/**
+ * Records a nonce; returns false when it was already used
+ */
+function rememberNonce(sessionId: string, nonce: string, now: number): boolean {
+  pruneSeenNonces(now);
+  const id = `${sessionId}:${nonce}`;
+  const expiresAt = seenNonces.get(id);
+  if (expiresAt !== undefined && expiresAt > now) return false;
+  // A request outside the timestamp window is rejected anyway, so the nonce only needs to outlive it
+  seenNonces.set(id, now + 2 * REQUEST_SIGNING_MAX_SKEW_SECONDS * 1000);
+  return true;
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Verifies the signature headers of a request against the raw body
+ */
+export async function verifySignedRequest(request: NextRequest, secret: string, now: number = Date.now()): Promise<SignatureCheck> {
+  const token = request.headers.get(SIGNING_TOKEN_HEADER);
+  const timestamp = request.headers.get(SIGNING_TIMESTAMP_HEADER);
+  const nonce = request.headers.get(SIGNING_NONCE_HEADER);
+  const signature = request.headers.get(SIGNING_SIGNATURE_HEADER);
+  if (!token || !timestamp || !nonce || !signature) {
+    return { valid: false, reason: 'Missing signature headers' };
+  }
+
+  const tokenCheck = await readSigningToken(secret, token, now);
+  if ('error' in tokenCheck) {
+    return { valid: false, reason: tokenCheck.error };
+  }
+
+  if (!/^\d+$/.test(timestamp) || Math.abs(Math.floor(now / 1000) - Number(timestamp)) > REQUEST_SIGNING_MAX_SKEW_SECONDS) {
+    return { valid: false, reason: 'Timestamp outside the allowed window', sessionId: tokenCheck.sessionId };
+  }
+  if (!NONCE_PATTERN.test(nonce)) {
+    return { valid: false, reason: 'Malformed nonce', sessionId: tokenCheck.sessionId };
+  }
+
+  // The route reads the body afterwards, so the signature is checked on a copy
+  const rawBody = await request.clone().text();
+  const isValidSignature = await verifyHmacSignature(`${timestamp}.${nonce}.${rawBody}`, signature, tokenCheck.key, { algorithm: 'SHA-256', encoding: 'hex' });
+  if (!isValidSignature) {
+    return { valid: false, reason: 'Invalid request signature', sessionId: tokenCheck.sessionId };
+  }
+
+  // Only valid requests consume their nonce, so a forged copy cannot block the real one
+  if (!rememberNonce(tokenCheck.sessionId, nonce, now)) {
+    return { valid: false, reason: 'Replayed request', sessionId: tokenCheck.sessionId };
+  }
+  return { valid: true, sessionId: tokenCheck.sessionId };
+}
+
+/**
+ * Returns a 401 response for an unsigned, forged or replayed request when the
+ * tenant enforces request signing, or null when the request may proceed
+ */
+export async function rejectUnsignedRequest(request: NextRequest, logTag: string): Promise<NextResponse | null> {
+  const policy = getRequestSigningPolicy(resolveTenant(request));
+  if (policy.mode === 'off') return null;
+
+  const timestamp = new Date().toISOString();
+  if (!policy.secret) {
+    console.error(`[${timestamp}] [${logTag}] ❌ Request signing is enforced but no signing secret is set. Refusing request.`);
+    return NextResponse.json({
+      message: 'Request signing secret is not configured on server',
+      success: false
+    }, { status: 500, headers: getCorsHeaders(request) });
+  }
+
+  const check = await verifySignedRequest(request, policy.secret);
+  if (check.valid) return null;
+
+  console.warn(`[${timestamp}] [${logTag}] 🔒 ${check.reason} (session: ${check.sessionId || 'N/A'}). Request rejected.`);
+  return NextResponse.json({
+    message: 'Invalid request signature',
+    reason: check.reason,
+    success: false
+  }, { status: 401, headers: getCorsHeaders(request) });
+}
+
+// =============================================================================
+// ORDER SIGNATURES
+// =============================================================================
+
+function getOrderMessage(order: OrderToSign): string | null {
+  const value = Number(order.value);
+  if (typeof order.order_id !== 'string' || !order.order_id || !Number.isFinite(value) || typeof order.currency !== 'string') {
+    return null;
+  }
+  return `${order.order_id}:${value.toFixed(2)}:${order.currency.toUpperCase()}`;
+}
+
+/**
+ * Signature the store sends with a Purchase: hex HMAC-SHA256 of "<order_id>:<value>:<CURRENCY>"
+ */
+export function computeOrderSignature(secret: string, order: OrderToSign): string | null {
+  const message = getOrderMessage(order);
+  return message ? hmacHex(secret, message) : null;
+}
+
+/**
+ * Checks the orderSignature of a Purchase when the tenant has an order secret
+ * (always valid otherwise)
+ */
+export async function checkOrderSignature(
+  request: NextRequest,
+  order: OrderToSign | null | undefined,
+  signature: unknown
+): Promise<SignatureCheck> {
+  const { orderSecret } = getRequestSigningPolicy(resolveTenant(request));
+  if (!orderSecret) return { valid: true };
+
+  if (typeof signature !== 'string' || !signature) {
+    return { valid: false, reason: 'Missing order signature' };
+  }
+  const message = order && getOrderMessage(order);
+  if (!message) {
+    return { valid: false, reason: 'order_id, value and currency are required to check the order signature' };
+  }
+  const expected = hmacHex(orderSecret, message);
+  return safeCompare(signature.toLowerCase(), expected)
+    ? { valid: true }
+    : { valid: false, reason: 'Invalid order signature' };
+}
@@ -0,0 +1,454 @@
+/**
+ * SHOPIFY WEBHOOK HELPERS
+ *
+ * Types and mappers for Shopify Admin webhooks (orders/create, ...).
+ * Converts Shopify order payloads into the e-commerce structures used by
+ * the Facebook Conversions API routes so that server-only events carry the
+ * same data as the ones sent from the storefront.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { UserData } from './fbevents';
+import type {
+  EcommercePurchaseData,
+  EcommerceRefundData,
+  PaymentMethod,
+  PaymentStatus,
+  PurchasedProduct,
+} from './ecommerce-types';
+import { verifyHmacSignature } from './webhook-signatures';
+
+// =============================================================================
+// SHOPIFY PAYLOAD TYPES (only the fields we consume)
+// =============================================================================
+
+export interface ShopifyAddress {
+  first_name?: string | null;
+  last_name?: string | null;
+  phone?: string | null;
+  city?: string | null;
+  province_code?: string | null;
+  zip?: string | null;
+  country_code?: string | null;
+}
+
+export interface ShopifyCustomer {
+  id?: number | string;
+  email?: string | null;
+  phone?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  orders_count?: number;
+  default_address?: ShopifyAddress | null;
+}
+
+export interface ShopifyLineItem {
+  id: number | string;
+  product_id?: number | string | null;
+  variant_id?: number | string | null;
+  title?: string;
+  variant_title?: string | null;
+  vendor?: string | null;
+  sku?: string | null;
+  quantity: number;
+  price: string;
+  total_discount?: string;
+}
+
+export interface ShopifyNoteAttribute {
+  name: string;
+  value: string | null;
+}
+
+export interface ShopifyTransaction {
+  id?: number | string;
+  kind?: string;
+  status?: string;
+  amount?: string;
+  currency?: string;
+  gateway?: string;
+}
+
+export interface ShopifyRefundLineItem {
+  id?: number | string;
+  line_item_id?: number | string;
+  quantity: number;
+  subtotal?: number | string;
+  total_tax?: number | string;
+  subtotal_set?: { shop_money?: { amount?: string; currency_code?: string } };
+  line_item?: ShopifyLineItem;
+}
+
+export interface ShopifyRefund {
+  id: number | string;
+  order_id: number | string;
+  created_at?: string;
+  processed_at?: string;
+  note?: string | null;
+  refund_line_items?: ShopifyRefundLineItem[];
+  transactions?: ShopifyTransaction[];
+  order_adjustments?: Array<{ amount?: string; kind?: string }>;
+}
+
+export interface ShopifyOrder {
+  id: number | string;
+  name?: string;
+  email?: string | null;
+  contact_email?: string | null;
+  phone?: string | null;
+  created_at: string;
+  currency: string;
+  total_price: string;
+  subtotal_price?: string;
+  total_tax?: string;
+  total_discounts?: string;
+  total_shipping_price_set?: { shop_money?: { amount?: string } };
+  financial_status?: string;
+  gateway?: string;
+  payment_gateway_names?: string[];
+  discount_codes?: Array<{ code: string; amount?: string; type?: string }>;
+  line_items: ShopifyLineItem[];
+  customer?: ShopifyCustomer | null;
+  billing_address?: ShopifyAddress | null;
+  shipping_address?: ShopifyAddress | null;
+  note_attributes?: ShopifyNoteAttribute[];
+  browser_ip?: string | null;
+  client_details?: { browser_ip?: string | null; user_agent?: string | null } | null;
+  landing_site?: string | null;
+  order_status_url?: string | null;
+  cancelled_at?: string | null;
+  cancel_reason?: string | null;
+  refunds?: ShopifyRefund[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * URL parameters forwarded to Facebook as custom_data (mirrors the list captured
+ * by FBCAPI.getUrlParameters in the theme snippets)
+ */
+export const SHOPIFY_TRACKING_PARAMETER_KEYS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_content',
+  'utm_term',
+  'fbclid',
+  'gclid',
+  'ttclid',
+  'ref',
+  'source',
+] as const;
+
+// =============================================================================
+// SIGNATURE VERIFICATION
+// =============================================================================
+
+/**
+ * Verifies the X-Shopify-Hmac-Sha256 header against the raw request body
+ */
+export async function verifyShopifyWebhook(
+  rawBody: string,
+  hmacHeader: string | null,
+  secret: string
+): Promise<boolean> {
+  return verifyHmacSignature(rawBody, hmacHeader, secret, { algorithm: 'SHA-256', encoding: 'base64' });
+}
+
+/**
+ * Verifies the `signature` query parameter Shopify adds to app proxy requests:
+ * hex HMAC-SHA256 of the other parameters, sorted, as "key=value" (repeated
+ * keys joined with ","), concatenated without separator
+ */
+export async function verifyShopifyAppProxyRequest(
+  searchParams: URLSearchParams,
+  secret: string
+): Promise<boolean> {
+  const values = new Map<string, string[]>();
+  searchParams.forEach((value, key) => {
+    if (key === 'signature') return;
+    values.set(key, [...(values.get(key) || []), value]);
+  });
+
+  const message: string[] = [];
+  values.forEach((keyValues, key) => {
+    message.push(`${key}=${keyValues.join(',')}`);
+  });
+  return verifyHmacSignature(message.sort().join(''), searchParams.get('signature'), secret, { algorithm: 'SHA-256', encoding: 'hex' });
+}
+
+// =============================================================================
+// MAPPERS
+// =============================================================================
+
+/**
+ * Converts a Shopify ISO timestamp into a Unix event_time
+ */
+export function toShopifyEventTime(isoDate: string | null | undefined): number | undefined {
+  if (!isoDate) return undefined;
+  const parsed = Date.parse(isoDate);
+  return Number.isNaN(parsed) ? undefined : Math.floor(parsed / 1000);
+}
+
+/**
+ * Converts the order created_at timestamp into a Unix event_time
+ */
+export function getShopifyOrderEventTime(order: ShopifyOrder): number | undefined {
+  return toShopifyEventTime(order.created_at);
+}
+
+function toAmount(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function getNoteAttributes(order: ShopifyOrder): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  (order.note_attributes || []).forEach(attribute => {
+    if (attribute?.name && attribute.value) {
+      attributes[attribute.name] = String(attribute.value);
+    }
+  });
+  return attributes;
+}
+
+function mapPaymentMethod(order: ShopifyOrder): PaymentMethod | undefined {
+  const gateway = (order.payment_gateway_names?.[0] || order.gateway || '').toLowerCase();
+  if (!gateway) return undefined;
+  if (gateway.includes('paypal')) return 'paypal';
+  if (gateway.includes('pix')) return 'pix';
+  if (gateway.includes('boleto')) return 'boleto';
+  if (gateway.includes('apple')) return 'apple_pay';
+  if (gateway.includes('google')) return 'google_pay';
+  if (gateway.includes('bank') || gateway.includes('deposit')) return 'bank_transfer';
+  if (gateway === 'shopify_payments' || gateway.includes('card')) return 'credit_card';
+  return 'other';
+}
+
+function mapPaymentStatus(financialStatus?: string): PaymentStatus | undefined {
+  switch (financialStatus) {
+    case 'paid':
+      return 'completed';
+    case 'pending':
+    case 'authorized':
+    case 'partially_paid':
+      return 'pending';
+    case 'refunded':
+      return 'refunded';
+    case 'partially_refunded':
+      return 'partially_refunded';
+    case 'voided':
+      return 'failed';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Maps a Shopify line item onto the purchased product structure used by the
+ * storefront snippets (content id = variant id)
+ */
+export function mapShopifyLineItem(item: ShopifyLineItem): PurchasedProduct {
+  const discount = toAmount(item.total_discount);
+  return {
+    id: String(item.variant_id ?? item.product_id ?? item.id),
+    quantity: Number(item.quantity),
+    item_price: toAmount(item.price) ?? 0,
+    ...(item.title && { title: item.title.trim() }),
+    ...(item.vendor && { brand: item.vendor.trim() }),
+    ...(item.variant_id != null && { variant_id: String(item.variant_id) }),
+    ...(item.variant_title && { variant_name: item.variant_title.trim() }),
+    ...(item.sku && { sku: item.sku.trim() }),
+    ...(discount && { discount_amount: discount }),
+  };
+}
+
+/**
+ * Maps a Shopify order payload onto EcommercePurchaseData
+ */
+export function mapShopifyOrderToPurchaseData(order: ShopifyOrder): EcommercePurchaseData {
+  const contents = (order.line_items || []).map(mapShopifyLineItem);
+  const numItems = contents.reduce((sum, item) => sum + item.quantity, 0);
+  const couponCodes = (order.discount_codes || []).map(discount => discount.code).filter(Boolean);
+  const shippingCost = toAmount(order.total_shipping_price_set?.shop_money?.amount);
+  const taxAmount = toAmount(order.total_tax);
+  const discountAmount = toAmount(order.total_discounts);
+  const subtotal = toAmount(order.subtotal_price);
+  const paymentMethod = mapPaymentMethod(order);
+  const paymentStatus = mapPaymentStatus(order.financial_status);
+  const ordersCount = order.customer?.orders_count;
+
+  return {
+    order_id: String(order.id),
+    value: toAmount(order.total_price) ?? 0,
+    currency: (order.currency || '').toUpperCase(),
+    contents,
+    num_items: numItems,
+    content_type: 'product',
+    content_ids: contents.map(item => item.id),
+    content_name: contents.length === 1
+      ? contents[0].title || `Product ${contents[0].id}`
+      : `Order with ${contents.length} products`,
+    ...(shippingCost !== undefined && { shipping_cost: shippingCost }),
+    ...(taxAmount !== undefined && { tax_amount: taxAmount }),
+    ...(discountAmount !== undefined && { discount_amount: discountAmount }),
+    ...(subtotal !== undefined && { subtotal }),
+    ...(paymentMethod && { payment_method: paymentMethod }),
+    ...(paymentStatus && { payment_status: paymentStatus }),
+    ...(couponCodes.length > 0 && { coupon_code: couponCodes[0], coupon_codes: couponCodes }),
+    ...(ordersCount !== undefined && { customer_type: ordersCount <= 1 ? 'new' : 'returning' }),
+    order_source: 'website',
+  };
+}
+
+/**
+ * Extracts raw (unhashed) customer data from the order. Hashing is done by
+ * sendServerEvent, exactly like for the browser routes.
+ */
+export function extractShopifyOrderUserData(order: ShopifyOrder): UserData {
+  const customer = order.customer || undefined;
+  const address = order.billing_address || order.shipping_address || customer?.default_address || undefined;
+  const attributes = getNoteAttributes(order);
+
+  const email = order.email || order.contact_email || customer?.email;
+  const phone = order.phone || customer?.phone || address?.phone;
+  const firstName = customer?.first_name || address?.first_name;
+  const lastName = customer?.last_name || address?.last_name;
+  const clientIp = order.browser_ip || order.client_details?.browser_ip;
+  const userAgent = order.client_details?.user_agent;
+
+  const userData: UserData = {
+    ...(email && { em: [email] }),
+    ...(phone && { ph: [phone] }),
+    ...(firstName && { fn: [firstName] }),
+    ...(lastName && { ln: [lastName] }),
+    ...(address?.city && { ct: [address.city] }),
+    ...(address?.province_code && { st: [address.province_code] }),
+    ...(address?.zip && { zp: [address.zip] }),
+    ...(address?.country_code && { country: [address.country_code.toLowerCase()] }),
+    ...(customer?.id != null && { external_id: [String(customer.id)] }),
+    ...(clientIp && { client_ip_address: clientIp }),
+    ...(userAgent && { client_user_agent: userAgent }),
+    ...(attributes._fbc && { fbc: attributes._fbc }),
+    ...(attributes._fbp && { fbp: attributes._fbp }),
+  };
+
+  return userData;
+}
+
+/**
+ * Extracts UTMs / click IDs forwarded by the storefront. Cart attributes
+ * (note_attributes) win over the query string of the order landing_site.
+ */
+export function extractShopifyTrackingParameters(order: ShopifyOrder): { [key: string]: string } {
+  const parameters: { [key: string]: string } = {};
+
+  if (order.landing_site) {
+    try {
+      const landingUrl = new URL(order.landing_site, 'https://shopify.invalid');
+      SHOPIFY_TRACKING_PARAMETER_KEYS.forEach(key => {
+        const value = landingUrl.searchParams.get(key);
+        if (value) parameters[key] = value;
+      });
+    } catch {
+      // Malformed landing_site - ignore and rely on note_attributes
+    }
+  }
+
+  const attributes = getNoteAttributes(order);
+  SHOPIFY_TRACKING_PARAMETER_KEYS.forEach(key => {
+    if (attributes[key]) parameters[key] = attributes[key];
+  });
+
+  return parameters;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function getSuccessfulRefundTransactions(refund: ShopifyRefund): ShopifyTransaction[] {
+  return (refund.transactions || []).filter(transaction =>
+    transaction.kind === 'refund' && (!transaction.status || transaction.status === 'success')
+  );
+}
+
+/**
+ * Total money returned by a refund. Uses the successful refund transactions and
+ * falls back to the refunded line items (subtotal + tax) when there are none.
+ */
+export function getShopifyRefundAmount(refund: ShopifyRefund): number {
+  const transactions = getSuccessfulRefundTransactions(refund);
+  if (transactions.length > 0) {
+    return roundAmount(transactions.reduce((sum, transaction) => sum + (toAmount(transaction.amount) ?? 0), 0));
+  }
+  return roundAmount((refund.refund_line_items || []).reduce(
+    (sum, item) => sum + (toAmount(item.subtotal) ?? 0) + (toAmount(item.total_tax) ?? 0),
+    0
+  ));
+}
+
+/**
+ * Maps a refunds/create payload onto a negative-value refund adjustment.
+ * Currency is not part of the refund itself, so it is taken from the
+ * transactions, the refunded line items or the provided fallback.
+ */
+export function mapShopifyRefundToRefundData(
+  refund: ShopifyRefund,
+  fallbackCurrency?: string
+): EcommerceRefundData {
+  const contents = (refund.refund_line_items || [])
+    .filter(item => item.line_item)
+    .map(item => ({ ...mapShopifyLineItem(item.line_item!), quantity: Number(item.quantity) }));
+  const refundAmount = getShopifyRefundAmount(refund);
+  const currency = getSuccessfulRefundTransactions(refund)[0]?.currency
+    || refund.refund_line_items?.[0]?.subtotal_set?.shop_money?.currency_code
+    || fallbackCurrency
+    || '';
+
+  return {
+    order_id: String(refund.order_id),
+    value: -refundAmount,
+    refund_amount: refundAmount,
+    currency: currency.toUpperCase(),
+    contents,
+    num_items: contents.reduce((sum, item) => sum + item.quantity, 0),
+    content_type: 'product',
+    content_ids: contents.map(item => item.id),
+    adjustment_type: 'refund',
+    refund_id: String(refund.id),
+    ...(refund.note && { reason: refund.note.trim() }),
+  };
+}
+
+/**
+ * Maps an orders/cancelled payload onto a negative-value cancellation adjustment.
+ * Money already returned through refunds is reported by refunds/create, so it is
+ * subtracted here to avoid counting the same amount twice.
+ */
+export function mapShopifyCancellationToRefundData(order: ShopifyOrder): EcommerceRefundData {
+  const purchase = mapShopifyOrderToPurchaseData(order);
+  const alreadyRefunded = (order.refunds || []).reduce((sum, refund) => sum + getShopifyRefundAmount(refund), 0);
+  const adjustment = roundAmount(Math.max(purchase.value - alreadyRefunded, 0));
+
+  return {
+    order_id: purchase.order_id,
+    value: -adjustment,
+    refund_amount: adjustment,
+    currency: purchase.currency,
+    contents: purchase.contents,
+    num_items: purchase.num_items,
+    content_type: 'product',
+    content_ids: purchase.content_ids,
+    adjustment_type: 'cancellation',
+    payment_status: alreadyRefunded > 0 ? 'partially_refunded' : 'refunded',
+    ...(order.cancel_reason && { reason: order.cancel_reason }),
+  };
+}
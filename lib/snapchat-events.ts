@@ -0,0 +1,177 @@
+/**
+ * SNAPCHAT CONVERSIONS API
+ *
+ * Destination adapter (lib/destination-adapters.ts) for the Snapchat
+ * Conversions API (v3), whose payload mirrors Meta's: the hashed user_data and
+ * custom_data are reused, external_id is hashed here, and the sc_click_id
+ * (ScCid URL parameter) and the _scid cookie of the Snap Pixel are passed through.
+ * Only events with a Snapchat standard event are sent.
+ *
+ * Configured per tenant with `snapchat` (lib/tenants.ts).
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { findClickId } from './click-id';
+import { hashIdentifier } from './identifiers';
+import type { CustomData, DestinationResult } from './fbevents';
+import type { AdapterEvent, DestinationAdapter } from './destination-adapters';
+import type { SnapchatDestination, TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SnapchatEvent {
+  event_name: string;
+  action_source: 'WEB';
+  event_time: number;
+  event_id?: string;
+  event_source_url?: string;
+  user_data: {
+    em?: string[];
+    ph?: string[];
+    external_id?: string[];
+    client_ip_address?: string;
+    client_user_agent?: string;
+    sc_click_id?: string;
+    sc_cookie1?: string;
+  };
+  custom_data?: Pick<CustomData, 'currency' | 'value' | 'content_ids' | 'contents' | 'num_items' | 'order_id' | 'search_string'>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Overridable to point the adapter at a local mock server
+const SNAPCHAT_API_BASE_URL = process.env.SNAPCHAT_API_BASE_URL || 'https://tr.snapchat.com';
+
+export const MAX_SNAPCHAT_EVENTS_PER_REQUEST = 2000;
+
+// Meta event names with a Snapchat standard event; other events are not sent
+export const SNAPCHAT_EVENT_NAMES: Record<string, string> = {
+  PageView: 'PAGE_VIEW',
+  ViewContent: 'VIEW_CONTENT',
+  AddToCart: 'ADD_CART',
+  AddToWishlist: 'ADD_TO_WISHLIST',
+  InitiateCheckout: 'START_CHECKOUT',
+  AddPaymentInfo: 'ADD_BILLING',
+  Purchase: 'PURCHASE',
+  CompleteRegistration: 'SIGN_UP',
+  Search: 'SEARCH',
+};
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function mapCustomData(customData: CustomData = {}): SnapchatEvent['custom_data'] | undefined {
+  const mapped: NonNullable<SnapchatEvent['custom_data']> = {
+    ...(customData.currency && { currency: customData.currency }),
+    ...(customData.value !== undefined && { value: Number(customData.value) }),
+    ...(customData.content_ids && customData.content_ids.length > 0 && { content_ids: customData.content_ids }),
+    ...(customData.contents && customData.contents.length > 0 && {
+      contents: customData.contents.map(item => ({
+        id: String(item.id),
+        quantity: item.quantity,
+        ...(item.item_price !== undefined && { item_price: item.item_price }),
+      })),
+    }),
+    ...(customData.num_items !== undefined && { num_items: customData.num_items }),
+    ...(customData.order_id && { order_id: customData.order_id }),
+    ...(customData.search_string && { search_string: customData.search_string }),
+  };
+  return Object.keys(mapped).length > 0 ? mapped : undefined;
+}
+
+/**
+ * Converts a built Meta event into a Snapchat Conversions API event
+ */
+export function toSnapchatEvent(event: AdapterEvent): SnapchatEvent {
+  const payload = event.payload;
+  const userData = payload.user_data;
+  const scClickId = findClickId({
+    urlParameters: event.urlParameters,
+    eventSourceUrl: payload.event_source_url,
+  }, ['ScCid', 'sc_click_id']);
+  const scCookie = event.request.cookies.get('_scid')?.value;
+  const customData = mapCustomData(payload.custom_data);
+
+  return {
+    event_name: SNAPCHAT_EVENT_NAMES[payload.event_name],
+    action_source: 'WEB',
+    event_time: payload.event_time,
+    ...(payload.event_id && { event_id: payload.event_id }),
+    ...(payload.event_source_url && { event_source_url: payload.event_source_url }),
+    user_data: {
+      ...(userData.em && { em: userData.em }),
+      ...(userData.ph && { ph: userData.ph }),
+      ...(userData.external_id && { external_id: userData.external_id.map(id => hashIdentifier(String(id))) }),
+      ...(userData.client_ip_address && { client_ip_address: userData.client_ip_address }),
+      ...(userData.client_user_agent && { client_user_agent: userData.client_user_agent }),
+      ...(scClickId && { sc_click_id: scClickId }),
+      ...(scCookie && { sc_cookie1: scCookie }),
+    },
+    ...(customData && { custom_data: customData }),
+  };
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+async function postSnapchatEvents(config: SnapchatDestination, events: SnapchatEvent[]): Promise<{ ok: boolean; responseData: unknown }> {
+  const response = await fetch(
+    `${SNAPCHAT_API_BASE_URL}/v3/${config.pixelId}/events?access_token=${encodeURIComponent(config.accessToken)}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ data: events }),
+    }
+  );
+  return { ok: response.ok, responseData: await response.json().catch(() => null) };
+}
+
+async function sendSnapchatEvents(tenant: TenantConfig, events: AdapterEvent[]): Promise<DestinationResult[]> {
+  const config = tenant.snapchat!;
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: 'snapchat',
+    dataset_id: config.pixelId,
+    success: false,
+    ...outcome,
+  });
+
+  const results: DestinationResult[] = [];
+  for (let start = 0; start < events.length; start += MAX_SNAPCHAT_EVENTS_PER_REQUEST) {
+    const chunk = events.slice(start, start + MAX_SNAPCHAT_EVENTS_PER_REQUEST).map(toSnapchatEvent);
+    console.log(`[SNAPCHAT_DEBUG] Sending ${chunk.length} event(s) to Snapchat pixel ${config.pixelId} (tenant: ${tenant.id}):`, JSON.stringify(chunk, null, 2));
+
+    try {
+      const { ok, responseData } = await postSnapchatEvents(config, chunk);
+      console.log(`[SNAPCHAT_DEBUG] Response from Snapchat for ${chunk.length} event(s):`, JSON.stringify(responseData, null, 2));
+      if (ok) {
+        results.push(...chunk.map(() => toResult({ success: true })));
+      } else {
+        console.error(`[SNAPCHAT_DEBUG] Snapchat rejected ${chunk.length} event(s):`, responseData);
+        results.push(...chunk.map(() => toResult({ error: responseData })));
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[SNAPCHAT_DEBUG] Failed to send ${chunk.length} event(s) to Snapchat:`, err.message);
+      results.push(...chunk.map(() => toResult({ error: err.message })));
+    }
+  }
+  return results;
+}
+
+export const snapchatAdapter: DestinationAdapter = {
+  name: 'snapchat',
+  getDestinationId: tenant => tenant.snapchat?.pixelId || null,
+  acceptsEvent: (tenant, eventName) =>
+    Boolean(SNAPCHAT_EVENT_NAMES[eventName]) && (!tenant.snapchat?.events || tenant.snapchat.events.includes(eventName)),
+  send: sendSnapchatEvents,
+};
@@ -0,0 +1,437 @@
+/**
+ * TENANT REGISTRY
+ *
+ * Lets one deployment serve many stores. Each tenant has its own dataset ID,
+ * access token, allowed origins, test event code and feature toggles. Extra
+ * destination datasets (e.g. a shared group pixel) and other ad platforms
+ * (lib/destination-adapters.ts) receive the same events.
+ *
+ * Tenants are read from TENANTS_CONFIG (JSON array) or TENANTS_CONFIG_FILE (path
+ * to a JSON file), through lib/config.ts. Without either, a single "default"
+ * tenant is built from FACEBOOK_DATASET_ID / FACEBOOK_ACCESS_TOKEN /
+ * ALLOWED_ORIGIN / FACEBOOK_TEST_EVENT_CODE, so single-store deployments keep
+ * working unchanged.
+ *
+ * A request is matched to a tenant, in order, by:
+ * 1. Path segment: /api/t/<tenantId>/... (rewritten by middleware.ts)
+ * 2. API key: X-Api-Key header
+ * 3. Shop domain: X-Shopify-Shop-Domain header, then the Origin / Referer of the browser
+ * 4. DEFAULT_TENANT_ID, or the only configured tenant
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getConfig, type AppConfig } from './config';
+import { isValidAllowedOrigin, matchesAllowedOrigin, normalizeOrigin } from './origins';
+import { safeCompare } from './webhook-signatures';
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+export const TenantFeaturesSchema = z.object({
+  // Server-set _fbp/_fbc cookies (overrides FIRST_PARTY_COOKIES)
+  firstPartyCookies: z.boolean().optional(),
+  // IP geolocation through ipdata.co (needs IPDATA_API_KEY)
+  geoEnrichment: z.boolean().optional(),
+  // Retry failed deliveries through the event queue (needs EVENT_QUEUE_MODE != off)
+  eventQueue: z.boolean().optional(),
+});
+
+// Overrides of the global consent settings (CONSENT_MODE, CONSENT_DEFAULT, META_LDU...)
+export const ConsentPolicySchema = z.object({
+  // off: no check; strip: send without PII when marketing consent is missing; drop: do not send
+  mode: z.enum(['off', 'strip', 'drop']).optional(),
+  // Consent assumed when the request carries no consent signal
+  default: z.enum(['granted', 'denied']).optional(),
+  // Meta Limited Data Use: never, only for visitors who opted out of the sale of data, or for every event
+  ldu: z.enum(['off', 'opt_out', 'always']).optional(),
+  // 0/0 lets Meta geolocate the event; 1/1000 = United States/California
+  lduCountry: z.number().int().nonnegative().optional(),
+  lduState: z.number().int().nonnegative().optional(),
+});
+
+// Overrides of the global request signing settings (REQUEST_SIGNING, REQUEST_SIGNING_SECRET...)
+export const RequestSigningPolicySchema = z.object({
+  // off: unsigned requests are accepted; enforce: /api/track/* requires a signed request
+  mode: z.enum(['off', 'enforce']).optional(),
+  secret: z.string().min(32, 'Request signing secrets must have at least 32 characters').optional(),
+  // Signs order_id/value/currency of Purchase events on the store side
+  orderSecret: z.string().min(1).optional(),
+  // Shopify app proxy secret (the app's client secret) for /api/proxy/signing-token
+  appProxySecret: z.string().min(1).optional(),
+});
+
+// Overrides of the global bot filter settings (BOT_FILTER_MODE)
+export const BotFilterPolicySchema = z.object({
+  // off: no check; tag: send bots with custom_data.traffic_type "bot"; drop: do not send bots
+  mode: z.enum(['off', 'tag', 'drop']).optional(),
+});
+
+// Requests per minute and client IP, visitor session (_fbp) and tenant; 0 disables a bucket
+export const RateLimitQuotaSchema = z.object({
+  ip: z.number().int().nonnegative().optional(),
+  session: z.number().int().nonnegative().optional(),
+  tenant: z.number().int().nonnegative().optional(),
+});
+
+// Event name (or "*" for every event) -> quota
+export const RateLimitQuotasSchema = z.record(RateLimitQuotaSchema);
+
+// Overrides of the global rate limiting settings (RATE_LIMIT_MODE, RATE_LIMIT_QUOTAS)
+export const RateLimitPolicySchema = z.object({
+  // off: no limit; enforce: over-limit /api/track/* requests get 429
+  mode: z.enum(['off', 'enforce']).optional(),
+  quotas: RateLimitQuotasSchema.optional(),
+});
+
+export const DatasetDestinationSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Destination name may only contain letters, digits, "-" and "_"'),
+  datasetId: z.string().min(1, 'datasetId is required'),
+  accessToken: z.string().min(1, 'accessToken is required'),
+  testEventCode: z.string().optional(),
+  // Event-name allowlist; every event is delivered when omitted
+  events: z.array(z.string().min(1)).optional(),
+});
+
+export const TikTokDestinationSchema = z.object({
+  pixelCode: z.string().min(1, 'pixelCode is required'),
+  accessToken: z.string().min(1, 'accessToken is required'),
+  testEventCode: z.string().optional(),
+  // Event-name allowlist (Meta event names); every event is delivered when omitted
+  events: z.array(z.string().min(1)).optional(),
+});
+
+export const Ga4DestinationSchema = z.object({
+  measurementId: z.string().regex(/^G-[A-Z0-9]+$/i, 'measurementId must look like G-XXXXXXX'),
+  apiSecret: z.string().min(1, 'apiSecret is required'),
+  // Event-name allowlist (Meta event names); every mapped event is delivered when omitted
+  events: z.array(z.string().min(1)).optional(),
+});
+
+export const GoogleAdsDestinationSchema = z.object({
+  customerId: z.string().regex(/^\d{3}-?\d{3}-?\d{4}$/, 'customerId must be a 10-digit Google Ads customer ID'),
+  // Manager account the credentials belong to, when different from customerId
+  loginCustomerId: z.string().regex(/^\d{3}-?\d{3}-?\d{4}$/).optional(),
+  developerToken: z.string().min(1, 'developerToken is required'),
+  // OAuth client and refresh token used to obtain access tokens
+  clientId: z.string().min(1, 'clientId is required'),
+  clientSecret: z.string().min(1, 'clientSecret is required'),
+  refreshToken: z.string().min(1, 'refreshToken is required'),
+  // Meta event name -> conversion action ID; only these events are uploaded
+  conversionActions: z.record(z.string().regex(/^\d+$/, 'Conversion action IDs are numeric')),
+});
+
+export const PinterestDestinationSchema = z.object({
+  adAccountId: z.string().regex(/^\d+$/, 'adAccountId must be numeric'),
+  accessToken: z.string().min(1, 'accessToken is required'),
+  // Events are validated but not recorded
+  testMode: z.boolean().optional(),
+  events: z.array(z.string().min(1)).optional(),
+});
+
+export const SnapchatDestinationSchema = z.object({
+  pixelId: z.string().min(1, 'pixelId is required'),
+  accessToken: z.string().min(1, 'accessToken is required'),
+  events: z.array(z.string().min(1)).optional(),
+});
+
+export const TenantSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Tenant id may only contain letters, digits, "-" and "_"'),
+  datasetId: z.string().min(1, 'datasetId is required'),
+  accessToken: z.string().min(1, 'accessToken is required'),
+  // Exact origins or wildcard-subdomain patterns, e.g. https://*.myshopify.com (lib/origins.ts)
+  allowedOrigins: z.array(z.string().refine(isValidAllowedOrigin, 'Allowed origins must be origins or https://*.domain patterns')).default([]),
+  shopDomains: z.array(z.string().min(1)).default([]),
+  apiKeys: z.array(z.string().min(16, 'API keys must have at least 16 characters')).default([]),
+  testEventCode: z.string().optional(),
+  cookieDomain: z.string().optional(),
+  features: TenantFeaturesSchema.default({}),
+  consent: ConsentPolicySchema.optional(),
+  requestSigning: RequestSigningPolicySchema.optional(),
+  rateLimits: RateLimitPolicySchema.optional(),
+  botFilter: BotFilterPolicySchema.optional(),
+  // Additional datasets; datasetId/accessToken above are the primary destination
+  datasets: z.array(DatasetDestinationSchema).default([]),
+  // TikTok Events API (lib/tiktok-events.ts)
+  tiktok: TikTokDestinationSchema.optional(),
+  // GA4 Measurement Protocol (lib/ga4-events.ts)
+  ga4: Ga4DestinationSchema.optional(),
+  // Google Ads click conversion upload (lib/google-ads-conversions.ts)
+  googleAds: GoogleAdsDestinationSchema.optional(),
+  // Pinterest Conversions API (lib/pinterest-events.ts)
+  pinterest: PinterestDestinationSchema.optional(),
+  // Snapchat Conversions API (lib/snapchat-events.ts)
+  snapchat: SnapchatDestinationSchema.optional(),
+});
+
+export const TenantRegistrySchema = z.array(TenantSchema).min(1, 'At least one tenant is required');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type TenantFeatures = z.infer<typeof TenantFeaturesSchema>;
+export type ConsentPolicyConfig = z.infer<typeof ConsentPolicySchema>;
+export type RequestSigningPolicyConfig = z.infer<typeof RequestSigningPolicySchema>;
+export type RateLimitQuota = z.infer<typeof RateLimitQuotaSchema>;
+export type RateLimitPolicyConfig = z.infer<typeof RateLimitPolicySchema>;
+export type BotFilterPolicyConfig = z.infer<typeof BotFilterPolicySchema>;
+export type TenantConfig = z.infer<typeof TenantSchema>;
+export type DatasetDestination = z.infer<typeof DatasetDestinationSchema>;
+export type TikTokDestination = z.infer<typeof TikTokDestinationSchema>;
+export type Ga4Destination = z.infer<typeof Ga4DestinationSchema>;
+export type GoogleAdsDestination = z.infer<typeof GoogleAdsDestinationSchema>;
+export type PinterestDestination = z.infer<typeof PinterestDestinationSchema>;
+export type SnapchatDestination = z.infer<typeof SnapchatDestinationSchema>;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Set by middleware.ts from /api/t/<tenantId>/...
+export const TENANT_PATH_HEADER = 'x-capi-tenant';
+export const TENANT_API_KEY_HEADER = 'x-api-key';
+const SHOPIFY_SHOP_DOMAIN_HEADER = 'x-shopify-shop-domain';
+
+export const DEFAULT_TENANT_ID = process.env.DEFAULT_TENANT_ID || 'default';
+
+// Name of the destination built from the tenant's own datasetId/accessToken
+export const PRIMARY_DESTINATION = 'primary';
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+let tenantRegistry: TenantConfig[] | null = null;
+const resolvedTenants = new WeakMap<NextRequest, TenantConfig | null>();
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^www\./, '');
+}
+
+function normalizeTenant(tenant: TenantConfig): TenantConfig {
+  return {
+    ...tenant,
+    allowedOrigins: tenant.allowedOrigins.map(normalizeOrigin),
+    shopDomains: tenant.shopDomains.map(normalizeHost),
+  };
+}
+
+// Single-store deployments; lib/config.ts guarantees the dataset, token and origins
+function buildDefaultTenant(config: AppConfig): TenantConfig {
+  return {
+    id: DEFAULT_TENANT_ID,
+    datasetId: config.facebook.datasetId!,
+    accessToken: config.facebook.accessToken!,
+    allowedOrigins: config.allowedOrigins,
+    shopDomains: [],
+    apiKeys: [],
+    testEventCode: config.facebook.testEventCode,
+    features: {},
+    datasets: [],
+    ...(config.tiktok && { tiktok: config.tiktok }),
+    ...(config.ga4 && { ga4: config.ga4 }),
+  };
+}
+
+// Tenant ids and destination names must be unique ("primary" is reserved)
+function assertUniqueNames(tenants: TenantConfig[]): void {
+  const ids = new Set<string>();
+  for (const tenant of tenants) {
+    if (ids.has(tenant.id)) {
+      throw new Error(`Invalid tenant configuration: duplicate tenant id "${tenant.id}"`);
+    }
+    ids.add(tenant.id);
+
+    const destinationNames = new Set<string>([PRIMARY_DESTINATION]);
+    for (const destination of tenant.datasets) {
+      if (destinationNames.has(destination.name)) {
+        throw new Error(`Invalid tenant configuration: duplicate or reserved destination name "${destination.name}" in tenant "${tenant.id}"`);
+      }
+      destinationNames.add(destination.name);
+    }
+  }
+}
+
+// Tenants that enforce request signing need a secret of their own or REQUEST_SIGNING_SECRET
+function assertSigningSecrets(tenants: TenantConfig[], config: AppConfig): void {
+  for (const tenant of tenants) {
+    const mode = tenant.requestSigning?.mode || config.requestSigning.mode;
+    if (mode === 'enforce' && !tenant.requestSigning?.secret && !config.requestSigning.secret) {
+      throw new Error(`Invalid tenant configuration: tenant "${tenant.id}" enforces request signing without a secret`);
+    }
+  }
+}
+
+function loadTenantRegistry(): TenantConfig[] {
+  const config = getConfig();
+  const rawConfig = config.tenants.rawConfig;
+  if (!rawConfig) {
+    return [normalizeTenant(buildDefaultTenant(config))];
+  }
+
+  const result = TenantRegistrySchema.safeParse(JSON.parse(rawConfig));
+  if (!result.success) {
+    const errors = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Invalid tenant configuration: ${errors.join('; ')}`);
+  }
+
+  assertUniqueNames(result.data);
+  assertSigningSecrets(result.data, config);
+  return result.data.map(normalizeTenant);
+}
+
+/**
+ * Returns all configured tenants (loaded and validated once)
+ */
+export function getTenants(): TenantConfig[] {
+  if (!tenantRegistry) {
+    tenantRegistry = loadTenantRegistry();
+    console.log(`[${new Date().toISOString()}] [TENANTS] 🏬 Loaded ${tenantRegistry.length} tenant(s): ${tenantRegistry.map(tenant => tenant.id).join(', ')}`);
+  }
+  return tenantRegistry;
+}
+
+/**
+ * Replaces the registry, e.g. setTenants(await loadTenantsFromDatabase())
+ */
+export function setTenants(tenants: TenantConfig[]): void {
+  const parsed = TenantRegistrySchema.parse(tenants);
+  assertUniqueNames(parsed);
+  assertSigningSecrets(parsed, getConfig());
+  tenantRegistry = parsed.map(normalizeTenant);
+}
+
+/**
+ * Looks up a tenant by id
+ */
+export function getTenantById(id: string | null | undefined): TenantConfig | null {
+  if (!id) return null;
+  return getTenants().find(tenant => tenant.id === id) || null;
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+function getBrowserOrigin(request: NextRequest): string | null {
+  const origin = request.headers.get('origin');
+  if (origin) return normalizeOrigin(origin);
+  const referer = request.headers.get('referer');
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Looks up a tenant by one of its shop domains, e.g. the "shop" parameter of a Shopify app proxy request
+ */
+export function getTenantByShopDomain(shopDomain: string | null | undefined): TenantConfig | null {
+  if (!shopDomain) return null;
+  const host = normalizeHost(shopDomain);
+  return getTenants().find(tenant => tenant.shopDomains.includes(host)) || null;
+}
+
+function findTenantByShopDomain(tenants: TenantConfig[], request: NextRequest): TenantConfig | undefined {
+  const tenant = getTenantByShopDomain(request.headers.get(SHOPIFY_SHOP_DOMAIN_HEADER));
+  if (tenant) return tenant;
+
+  const origin = getBrowserOrigin(request);
+  if (!origin) return undefined;
+  let originHost: string;
+  try {
+    originHost = normalizeHost(new URL(origin).hostname);
+  } catch {
+    return undefined;
+  }
+  return tenants.find(candidate =>
+    matchesAllowedOrigin(origin, candidate.allowedOrigins) || candidate.shopDomains.includes(originHost)
+  );
+}
+
+/**
+ * Finds the tenant a request belongs to. Returns null when no tenant matches
+ * and there is no default tenant.
+ */
+export function resolveTenant(request: NextRequest): TenantConfig | null {
+  if (resolvedTenants.has(request)) {
+    return resolvedTenants.get(request) || null;
+  }
+
+  const tenants = getTenants();
+  let tenant: TenantConfig | null = null;
+
+  const tenantIdFromPath = request.headers.get(TENANT_PATH_HEADER);
+  const apiKey = request.headers.get(TENANT_API_KEY_HEADER);
+
+  if (tenantIdFromPath) {
+    // An explicit but unknown tenant id never falls back to the default tenant
+    tenant = getTenantById(tenantIdFromPath);
+  } else if (apiKey) {
+    tenant = tenants.find(candidate => candidate.apiKeys.some(key => safeCompare(apiKey, key))) || null;
+  } else {
+    tenant = findTenantByShopDomain(tenants, request)
+      || getTenantById(DEFAULT_TENANT_ID)
+      || (tenants.length === 1 ? tenants[0] : null);
+  }
+
+  resolvedTenants.set(request, tenant);
+  return tenant;
+}
+
+/**
+ * Returns true when the origin is one of the tenant's allowed origins or patterns
+ */
+export function isTenantOriginAllowed(tenant: TenantConfig | null | undefined, origin: string | null | undefined): boolean {
+  return matchesAllowedOrigin(origin, tenant?.allowedOrigins || []);
+}
+
+/**
+ * Reads a feature toggle of the tenant, falling back to the global setting
+ */
+export function isTenantFeatureEnabled(
+  tenant: TenantConfig | null | undefined,
+  feature: keyof TenantFeatures,
+  globalDefault: boolean
+): boolean {
+  const value = tenant?.features[feature];
+  return value === undefined ? globalDefault : value;
+}
+
+// =============================================================================
+// DESTINATIONS
+// =============================================================================
+
+/**
+ * All datasets of a tenant, primary first
+ */
+export function getTenantDestinations(tenant: TenantConfig): DatasetDestination[] {
+  const primary: DatasetDestination = {
+    name: PRIMARY_DESTINATION,
+    datasetId: tenant.datasetId,
+    accessToken: tenant.accessToken,
+    testEventCode: tenant.testEventCode,
+  };
+  return [primary, ...tenant.datasets];
+}
+
+/**
+ * Looks up a destination of a tenant by name
+ */
+export function getTenantDestination(tenant: TenantConfig, name: string): DatasetDestination | null {
+  return getTenantDestinations(tenant).find(destination => destination.name === name) || null;
+}
+
+/**
+ * Returns true when the destination's allowlist (if any) includes the event
+ */
+export function destinationAcceptsEvent(destination: DatasetDestination, eventName: string): boolean {
+  return !destination.events || destination.events.includes(eventName);
+}
@@ -0,0 +1,233 @@
+/**
+ * TIKTOK EVENTS API
+ *
+ * Destination adapter (lib/destination-adapters.ts) for the TikTok Events API
+ * 2.0 (web events). It reuses the hashed Meta user_data, passes through the
+ * ttclid click ID and the _ttp browser cookie, and maps Meta event names and
+ * contents onto TikTok's. The Meta event_id is kept so TikTok deduplicates the
+ * server event against the TikTok pixel when both use the same ID.
+ *
+ * Configured per tenant with `tiktok` (lib/tenants.ts), or for the default
+ * tenant with TIKTOK_PIXEL_CODE / TIKTOK_ACCESS_TOKEN / TIKTOK_TEST_EVENT_CODE.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { findClickId } from './click-id';
+import { hashIdentifier } from './identifiers';
+import type { CustomData, DestinationResult, ServerEvent } from './fbevents';
+import type { AdapterEvent, DestinationAdapter } from './destination-adapters';
+import type { TenantConfig, TikTokDestination } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TikTokUser {
+  email?: string; // SHA-256
+  phone?: string; // SHA-256
+  external_id?: string; // SHA-256
+  ttclid?: string;
+  ttp?: string;
+  ip?: string;
+  user_agent?: string;
+}
+
+export interface TikTokContent {
+  content_id: string;
+  content_name?: string;
+  content_category?: string;
+  brand?: string;
+  price?: number;
+  quantity?: number;
+}
+
+export interface TikTokProperties {
+  contents?: TikTokContent[];
+  content_type?: 'product' | 'product_group';
+  currency?: string;
+  value?: number;
+  query?: string;
+  order_id?: string;
+  description?: string;
+}
+
+export interface TikTokEvent {
+  event: string;
+  event_time: number;
+  event_id?: string;
+  user: TikTokUser;
+  properties?: TikTokProperties;
+  page?: {
+    url?: string;
+    referrer?: string;
+  };
+}
+
+// Events API answer; code is 0 when the request was accepted
+interface TikTokResponse {
+  code?: number;
+  message?: string;
+  request_id?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Overridable to point the adapter at a local mock server
+const TIKTOK_API_BASE_URL = process.env.TIKTOK_API_BASE_URL || 'https://business-api.tiktok.com';
+const TIKTOK_EVENTS_API_URL = `${TIKTOK_API_BASE_URL}/open_api/v1.3/event/track/`;
+
+export const MAX_TIKTOK_EVENTS_PER_REQUEST = 1000;
+
+// Meta event names that differ on TikTok; every other name is sent unchanged
+export const TIKTOK_EVENT_NAMES: Record<string, string> = {
+  PageView: 'Pageview',
+  Purchase: 'CompletePayment',
+  Lead: 'SubmitForm',
+};
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function mapContents(customData: CustomData): TikTokContent[] | undefined {
+  if (customData.contents && customData.contents.length > 0) {
+    return customData.contents.map(item => ({
+      content_id: String(item.id),
+      ...(typeof item.title === 'string' && { content_name: item.title }),
+      ...(typeof item.category === 'string' && { content_category: item.category }),
+      ...(typeof item.brand === 'string' && { brand: item.brand }),
+      ...(item.item_price !== undefined && { price: item.item_price }),
+      quantity: item.quantity,
+    }));
+  }
+  if (customData.content_ids && customData.content_ids.length > 0) {
+    return customData.content_ids.map(id => ({
+      content_id: String(id),
+      ...(customData.content_name && { content_name: customData.content_name }),
+      ...(customData.content_category && { content_category: customData.content_category }),
+    }));
+  }
+  return undefined;
+}
+
+function mapProperties(customData: CustomData = {}): TikTokProperties | undefined {
+  const contents = mapContents(customData);
+  const properties: TikTokProperties = {
+    ...(contents && { contents }),
+    ...(contents && { content_type: customData.content_type === 'product_group' ? 'product_group' : 'product' }),
+    ...(customData.currency && { currency: customData.currency }),
+    ...(customData.value !== undefined && { value: Number(customData.value) }),
+    ...(customData.search_string && { query: customData.search_string }),
+    ...(customData.order_id && { order_id: customData.order_id }),
+    ...(customData.content_name && !contents && { description: customData.content_name }),
+  };
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
+/**
+ * Converts a built Meta event into a TikTok Events API event
+ */
+export function toTikTokEvent(event: AdapterEvent): TikTokEvent {
+  const payload: ServerEvent = event.payload;
+  const userData = payload.user_data;
+  const ttclid = findClickId({
+    urlParameters: event.urlParameters,
+    eventSourceUrl: payload.event_source_url,
+    getCookie: name => event.request.cookies.get(name)?.value,
+  }, ['ttclid'], 'ttclid');
+  const ttp = event.request.cookies.get('_ttp')?.value;
+  const referrer = event.request.headers.get('referer');
+
+  const user: TikTokUser = {
+    ...(userData.em?.[0] && { email: userData.em[0] }),
+    ...(userData.ph?.[0] && { phone: userData.ph[0] }),
+    ...(userData.external_id?.[0] && { external_id: hashIdentifier(String(userData.external_id[0])) }),
+    ...(ttclid && { ttclid }),
+    ...(ttp && { ttp }),
+    ...(userData.client_ip_address && { ip: userData.client_ip_address }),
+    ...(userData.client_user_agent && { user_agent: userData.client_user_agent }),
+  };
+
+  const properties = mapProperties(payload.custom_data);
+
+  return {
+    event: TIKTOK_EVENT_NAMES[payload.event_name] || payload.event_name,
+    event_time: payload.event_time,
+    ...(payload.event_id && { event_id: payload.event_id }),
+    user,
+    ...(properties && { properties }),
+    ...((payload.event_source_url || referrer) && {
+      page: {
+        ...(payload.event_source_url && { url: payload.event_source_url }),
+        ...(referrer && { referrer }),
+      },
+    }),
+  };
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+async function postTikTokEvents(config: TikTokDestination, events: TikTokEvent[]): Promise<{ ok: boolean; responseData: TikTokResponse }> {
+  const response = await fetch(TIKTOK_EVENTS_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Token': config.accessToken,
+    },
+    body: JSON.stringify({
+      event_source: 'web',
+      event_source_id: config.pixelCode,
+      ...(config.testEventCode && { test_event_code: config.testEventCode }),
+      data: events,
+    }),
+  });
+
+  const responseData: TikTokResponse = await response.json();
+  // TikTok answers HTTP 200 with a non-zero code for rejected requests
+  return { ok: response.ok && responseData.code === 0, responseData };
+}
+
+async function sendTikTokEvents(tenant: TenantConfig, events: AdapterEvent[]): Promise<DestinationResult[]> {
+  const config = tenant.tiktok!;
+  const toResult = (outcome: Partial<DestinationResult>): DestinationResult => ({
+    destination: 'tiktok',
+    dataset_id: config.pixelCode,
+    success: false,
+    ...outcome,
+  });
+
+  const results: DestinationResult[] = [];
+  for (let start = 0; start < events.length; start += MAX_TIKTOK_EVENTS_PER_REQUEST) {
+    const chunk = events.slice(start, start + MAX_TIKTOK_EVENTS_PER_REQUEST).map(toTikTokEvent);
+    console.log(`[TIKTOK_DEBUG] Sending ${chunk.length} event(s) to TikTok pixel ${config.pixelCode} (tenant: ${tenant.id}):`, JSON.stringify(chunk, null, 2));
+
+    try {
+      const { ok, responseData } = await postTikTokEvents(config, chunk);
+      console.log(`[TIKTOK_DEBUG] Response from TikTok for ${chunk.length} event(s):`, JSON.stringify(responseData, null, 2));
+      if (ok) {
+        results.push(...chunk.map(() => toResult({ success: true, request_id: responseData.request_id })));
+      } else {
+        console.error(`[TIKTOK_DEBUG] TikTok rejected ${chunk.length} event(s):`, responseData);
+        results.push(...chunk.map(() => toResult({ error: responseData, request_id: responseData?.request_id })));
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[TIKTOK_DEBUG] Failed to send ${chunk.length} event(s) to TikTok:`, err.message);
+      results.push(...chunk.map(() => toResult({ error: err.message })));
+    }
+  }
+  return results;
+}
+
+export const tiktokAdapter: DestinationAdapter = {
+  name: 'tiktok',
+  getDestinationId: tenant => tenant.tiktok?.pixelCode || null,
+  acceptsEvent: (tenant, eventName) => !tenant.tiktok?.events || tenant.tiktok.events.includes(eventName),
+  send: sendTikTokEvents,
+};
@@ -0,0 +1,305 @@
+/**
+ * TRACKING ROUTES
+ *
+ * Factory for the single-event /api/track/* endpoints. Every event goes
+ * through the same steps, only the event name, the customData schema and the
+ * extra response fields differ:
+ *
+ * 1. Origin, request signature and rate limit checks (lib/cors.ts,
+ *    lib/request-signing.ts, lib/rate-limit.ts)
+ * 2. Body parsing, consent (lib/consent.ts) and customData validation
+ *    (400 with one ValidationIssue per problem)
+ * 3. _fbc/_fbp from the server cookies win over userData of the client, then
+ *    the first-party cookies are created or refreshed (lib/first-party-cookies.ts)
+ * 4. sendServerEvent and the JSON response (200, or 500 with the error)
+ *
+ * Request body: { eventId, userData, customData, eventSourceUrl, urlParameters, consent }
+ *
+ * Usage (app/api/track/<event>/route.ts):
+ *
+ *   export const { POST, OPTIONS } = createTrackingRoute({
+ *     eventName: 'ViewContent',
+ *     ...EVENT_SCHEMAS.ViewContent,
+ *     responseShape: data => ({ product_data: { ids: data.content_ids } }),
+ *   });
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { sendServerEvent } from './fbevents';
+import type { CustomData, UserData } from './fbevents';
+import { recordRequestConsent } from './consent';
+import { prepareFirstPartyCookies, withFirstPartyCookies } from './first-party-cookies';
+import { validateEcommerceData, type ValidationResult } from './ecommerce-types';
+import { getCorsHeaders, handleCorsPreflight, rejectDisallowedOrigin } from './cors';
+import { rejectUnsignedRequest } from './request-signing';
+import { rejectRateLimited } from './rate-limit';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TrackingRequestBody {
+  eventId?: string;
+  userData?: Partial<UserData>;
+  customData?: unknown;
+  eventSourceUrl?: string;
+  urlParameters?: { [key: string]: string };
+  consent?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Refusal of an event whose customData is valid, e.g. a Purchase with a bad order signature
+ */
+export interface TrackingRouteRejection {
+  status: number;
+  message: string;
+  reason?: string;
+}
+
+export interface TrackingRouteOptions<Data extends CustomData, Summary = undefined> {
+  eventName: string; // Event sent to Meta, also the rate limit key
+  logTag?: string;   // Defaults to the event name in UPPER_SNAKE_CASE (AddToCart -> ADD_TO_CART)
+  schema?: z.ZodType<Data, z.ZodTypeDef, unknown>;
+  summarize?(data: Data): Summary;
+  // Replaces schema + summarize when customData needs more than a schema (e.g. Search normalisation)
+  validate?(customData: unknown): ValidationResult<Data, Summary>;
+  // Logged once customData is valid
+  describe?(data: Data, summary: Summary): Record<string, unknown>;
+  // Last check before the event is sent; a rejection is answered with its status
+  beforeSend?(request: NextRequest, data: Data, body: TrackingRequestBody): Promise<TrackingRouteRejection | null>;
+  // Extra fields of the 200 response, e.g. { product_data: { ... } }
+  responseShape?(data: Data, summary: Summary): Record<string, unknown>;
+  warnOnLowMatchQuality?: boolean; // Warn when userData has no em, ph or external_id
+}
+
+export interface TrackingRouteHandlers {
+  POST(request: NextRequest): Promise<NextResponse>;
+  OPTIONS(request: NextRequest): Promise<NextResponse>;
+  // POST without the origin, signature and rate limit checks, for routes that run them first
+  handleEvent(request: NextRequest): Promise<NextResponse>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toLogTag(eventName: string): string {
+  return eventName
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .toUpperCase();
+}
+
+/**
+ * userData of the client with _fbc/_fbp taken from the server cookies when
+ * they are set. The chosen sources are logged when a log prefix is given.
+ */
+export function mergeFacebookCookies(
+  request: NextRequest,
+  clientProvidedUserData: Partial<UserData> | undefined,
+  logPrefix?: string
+): Partial<UserData> {
+  const fbcFromCookieServer = request.cookies.get('_fbc')?.value;
+  const fbpFromCookieServer = request.cookies.get('_fbp')?.value;
+
+  const userDataForFbevents: Partial<UserData> = {
+    ...clientProvidedUserData,
+    fbc: fbcFromCookieServer && (!clientProvidedUserData?.fbc || clientProvidedUserData.fbc !== fbcFromCookieServer)
+         ? fbcFromCookieServer
+         : clientProvidedUserData?.fbc,
+    fbp: fbpFromCookieServer && (!clientProvidedUserData?.fbp || clientProvidedUserData.fbp !== fbpFromCookieServer)
+         ? fbpFromCookieServer
+         : clientProvidedUserData?.fbp,
+  };
+
+  if (!logPrefix) return userDataForFbevents;
+
+  if (fbcFromCookieServer && userDataForFbevents.fbc === fbcFromCookieServer) {
+    console.log(`${logPrefix} 🍪 Using _fbc from server cookie: ${fbcFromCookieServer}`);
+  } else if (userDataForFbevents.fbc) {
+    console.log(`${logPrefix} 🍪 Using _fbc from client: ${userDataForFbevents.fbc}`);
+  } else {
+    console.log(`${logPrefix} ⚠️ No _fbc identifier found`);
+  }
+
+  if (fbpFromCookieServer && userDataForFbevents.fbp === fbpFromCookieServer) {
+    console.log(`${logPrefix} 🍪 Using _fbp from server cookie: ${fbpFromCookieServer}`);
+  } else if (userDataForFbevents.fbp) {
+    console.log(`${logPrefix} 🍪 Using _fbp from client: ${userDataForFbevents.fbp}`);
+  } else {
+    console.log(`${logPrefix} ⚠️ No _fbp identifier found`);
+  }
+
+  return userDataForFbevents;
+}
+
+// =============================================================================
+// ROUTE FACTORY
+// =============================================================================
+
+/**
+ * Builds the POST and OPTIONS handlers of a single-event tracking endpoint
+ */
+export function createTrackingRoute<Data extends CustomData, Summary = undefined>(
+  options: TrackingRouteOptions<Data, Summary>
+): TrackingRouteHandlers {
+  const { eventName, schema } = options;
+  const logTag = options.logTag || toLogTag(eventName);
+
+  if (!schema && !options.validate) {
+    throw new Error(`Invalid tracking route configuration: ${eventName} needs a schema or a validate function`);
+  }
+
+  const validate = (customData: unknown): ValidationResult<Data, Summary> => {
+    if (options.validate) return options.validate(customData);
+    const validation = validateEcommerceData<Data, Summary>(schema!, customData);
+    if (validation.isValid && options.summarize) {
+      validation.summary = options.summarize(validation.sanitizedData!);
+    }
+    return validation;
+  };
+
+  async function OPTIONS(request: NextRequest): Promise<NextResponse> {
+    return handleCorsPreflight(request, logTag);
+  }
+
+  async function POST(request: NextRequest): Promise<NextResponse> {
+    const originRejection = rejectDisallowedOrigin(request, logTag);
+    if (originRejection) return originRejection;
+    const signatureRejection = await rejectUnsignedRequest(request, logTag);
+    if (signatureRejection) return signatureRejection;
+    const rateLimitRejection = await rejectRateLimited(request, eventName, logTag);
+    if (rateLimitRejection) return rateLimitRejection;
+
+    return handleEvent(request);
+  }
+
+  async function handleEvent(request: NextRequest): Promise<NextResponse> {
+    const timestamp = new Date().toISOString();
+    let eventId = 'N/A';
+    const corsHeaders = getCorsHeaders(request);
+
+    try {
+      console.log(`[${timestamp}] [${logTag}] 📨 Received ${eventName} event from client`);
+      const body: TrackingRequestBody = await request.json();
+      eventId = body.eventId || eventId;
+      recordRequestConsent(request, body.consent);
+      const logPrefix = `[${timestamp}] [${logTag}] [${eventId}]`;
+      console.log(`${logPrefix} Raw payload from client:`, JSON.stringify(body, null, 2));
+
+      const {
+        userData: clientProvidedUserData,
+        customData: customDataFromClient,
+        eventSourceUrl,
+        urlParameters: urlParametersFromClient
+      } = body;
+
+      const validation = validate(customDataFromClient ?? {});
+      if (!validation.isValid) {
+        console.warn(`${logPrefix} ❌ ${eventName} data validation failed:`, validation.errors);
+        return NextResponse.json({
+          message: `Invalid data for ${eventName} event`,
+          errors: validation.errors,
+          event_id: eventId,
+          success: false
+        }, { status: 400, headers: corsHeaders });
+      }
+
+      const validatedCustomData = validation.sanitizedData!;
+      const summary = validation.summary as Summary;
+
+      console.log(`${logPrefix} ✅ ${eventName} data validated successfully`);
+      if (options.describe) {
+        console.log(`${logPrefix} 📝 ${eventName} Summary:`, options.describe(validatedCustomData, summary));
+      }
+
+      if (options.beforeSend) {
+        const rejection = await options.beforeSend(request, validatedCustomData, body);
+        if (rejection) {
+          console.warn(`${logPrefix} 🔒 ${rejection.message}${rejection.reason ? ` (${rejection.reason})` : ''}. ${eventName} rejected.`);
+          return NextResponse.json({
+            message: rejection.message,
+            reason: rejection.reason,
+            event_id: eventId,
+            success: false
+          }, { status: rejection.status, headers: corsHeaders });
+        }
+      }
+
+      const userDataForFbevents = mergeFacebookCookies(request, clientProvidedUserData, logPrefix);
+
+      // Create or refresh first-party _fbp/_fbc cookies (FIRST_PARTY_COOKIES=on)
+      const firstPartyCookies = prepareFirstPartyCookies(request, userDataForFbevents, urlParametersFromClient, eventSourceUrl);
+      if (firstPartyCookies) {
+        userDataForFbevents.fbp = firstPartyCookies.fbp;
+        userDataForFbevents.fbc = firstPartyCookies.fbc;
+        console.log(`${logPrefix} 🍪 First-party cookies: _fbp from ${firstPartyCookies.fbpSource}, _fbc from ${firstPartyCookies.fbcSource}`);
+      }
+
+      if (options.warnOnLowMatchQuality && !userDataForFbevents.em && !userDataForFbevents.ph && !userDataForFbevents.external_id) {
+        console.warn(`${logPrefix} ⚠️ ${eventName} has no em, ph or external_id - match quality will be low`);
+      }
+
+      console.log(`${logPrefix} 👤 UserData for Facebook CAPI:`, JSON.stringify(userDataForFbevents, null, 2));
+      console.log(`${logPrefix} 🚀 Sending ${eventName} event to Facebook Conversions API`);
+
+      const result = await sendServerEvent(
+        eventName,
+        request,
+        userDataForFbevents as UserData,
+        validatedCustomData,
+        eventSourceUrl,
+        eventId,
+        urlParametersFromClient
+      );
+
+      console.log(`${logPrefix} 📡 Facebook Conversions API response:`, JSON.stringify(result, null, 2));
+
+      if (result && result.success) {
+        console.log(`${logPrefix} ✅ ${eventName} event processed successfully! fbtrace_id: ${result.fbtrace_id}`);
+        return withFirstPartyCookies(NextResponse.json({
+          message: `${eventName} event processed successfully`,
+          fbtrace_id: result.fbtrace_id,
+          debug: result.debug,
+          destinations: result.destinations,
+          consent: result.consent,
+          traffic: result.traffic,
+          event_id: eventId,
+          ...(options.responseShape && options.responseShape(validatedCustomData, summary)),
+          success: true
+        }, { status: 200, headers: corsHeaders }), firstPartyCookies);
+      } else {
+        console.error(`${logPrefix} ❌ Error processing ${eventName} event:`, result?.error || result?.warning || 'Unknown error');
+        return withFirstPartyCookies(NextResponse.json({
+          message: `Error processing ${eventName} event`,
+          error: result?.error || result?.warning || 'Unknown error',
+          destinations: result?.destinations,
+          consent: result?.consent,
+          traffic: result?.traffic,
+          event_id: eventId,
+          success: false
+        }, { status: 500, headers: corsHeaders }), firstPartyCookies);
+      }
+    } catch (error) {
+      const errorTimestamp = new Date().toISOString();
+      console.error(`[${errorTimestamp}] [${logTag}_ERROR] [${eventId}] 💥 Critical error in ${eventName} API:`, error);
+      let errorMessage = 'Internal Server Error';
+      if (error instanceof Error) {
+          errorMessage = error.message;
+      }
+      return NextResponse.json({
+          message: `Critical error processing ${eventName} event`,
+          error: errorMessage,
+          event_id: eventId,
+          success: false
+      }, { status: 500, headers: corsHeaders });
+    }
+  }
+
+  return { POST, OPTIONS, handleEvent };
+}
@@ -0,0 +1,285 @@
+/**
+ * TRAFFIC CLASSIFICATION (bots and crawlers)
+ *
+ * Crawlers, uptime monitors and headless scrapers run the storefront snippets
+ * too, and their PageViews would reach Meta as real visits. Each browser event
+ * is scored from these signals:
+ *
+ * - user_agent:      known crawler, monitor or HTTP library (KNOWN_BOT_USER_AGENTS
+ *                    + BOT_USER_AGENT_PATTERNS), or no user agent at all (weight 2)
+ * - headless:        headless browser or automation framework (weight 2)
+ * - datacenter_ip:   client IP in a cloud / hosting range (KNOWN_DATACENTER_RANGES
+ *                    + BOT_DATACENTER_RANGES, IPv4 CIDRs) (weight 1)
+ * - no_accept_language: browsers always send Accept-Language (weight 1)
+ * - burst:           more than BOT_BURST_MAX_REQUESTS requests from one IP within
+ *                    BOT_BURST_WINDOW_SECONDS (weight 1)
+ *
+ * A score of BOT_SCORE_THRESHOLD (2) or more is a bot: BOT_FILTER_MODE=tag sends
+ * the event with custom_data.traffic_type = "bot", BOT_FILTER_MODE=drop does not
+ * send it. Both are logged with the reasons and counted in the bot_events
+ * metric (lib/metrics.ts). Tenants can override the mode with `botFilter`
+ * (lib/tenants.ts). Server-to-server events (webhooks) are not classified.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+import type { NextRequest } from 'next/server';
+import { incrementCounter } from './metrics';
+import type { TenantConfig } from './tenants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BotFilterMode = 'off' | 'tag' | 'drop';
+export type BotSignal = 'user_agent' | 'headless' | 'datacenter_ip' | 'no_accept_language' | 'burst';
+
+// not_checked: BOT_FILTER_MODE=off or server-to-server event; human: sent as usual;
+// tagged: bot, sent with traffic_type "bot"; dropped: bot, not sent
+export type TrafficRule = 'not_checked' | 'human' | 'tagged' | 'dropped';
+
+export interface TrafficClassification {
+  rule: TrafficRule;
+  score: number;
+  reasons: string[]; // "<signal>" or "<signal>:<detail>", e.g. "user_agent:googlebot"
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const BOT_FILTER_MODES: BotFilterMode[] = ['off', 'tag', 'drop'];
+
+const rawBotFilterMode = (process.env.BOT_FILTER_MODE || 'off').toLowerCase() as BotFilterMode;
+const BOT_FILTER_MODE: BotFilterMode = BOT_FILTER_MODES.includes(rawBotFilterMode) ? rawBotFilterMode : 'off';
+
+const BOT_SCORE_THRESHOLD = Number(process.env.BOT_SCORE_THRESHOLD) || 2;
+const BOT_BURST_MAX_REQUESTS = Number(process.env.BOT_BURST_MAX_REQUESTS) || 30;
+const BOT_BURST_WINDOW_SECONDS = Number(process.env.BOT_BURST_WINDOW_SECONDS) || 10;
+
+const SIGNAL_WEIGHTS: Record<BotSignal, number> = {
+  user_agent: 2,
+  headless: 2,
+  datacenter_ip: 1,
+  no_accept_language: 1,
+  burst: 1,
+};
+
+// Crawlers, link previews, SEO tools, uptime monitors and HTTP libraries
+// (case-insensitive substrings). Extend with BOT_USER_AGENT_PATTERNS.
+export const KNOWN_BOT_USER_AGENTS = [
+  // Search engines and AI crawlers
+  'googlebot', 'google-inspectiontool', 'adsbot-google', 'mediapartners-google', 'apis-google',
+  'bingbot', 'bingpreview', 'msnbot', 'yandexbot', 'baiduspider', 'duckduckbot', 'slurp',
+  'applebot', 'petalbot', 'sogou', 'seznambot', 'gptbot', 'chatgpt-user', 'oai-searchbot',
+  'claudebot', 'perplexitybot', 'bytespider', 'amazonbot', 'ccbot',
+  // Link previews and social crawlers
+  'facebookexternalhit', 'facebookcatalog', 'meta-externalagent', 'twitterbot', 'linkedinbot',
+  'slackbot', 'discordbot', 'telegrambot', 'whatsapp', 'pinterestbot', 'redditbot', 'skypeuripreview',
+  // SEO tools and scrapers
+  'ahrefsbot', 'semrushbot', 'mj12bot', 'dotbot', 'rogerbot', 'screaming frog', 'dataforseobot',
+  'serpstatbot', 'blexbot', 'barkrowler',
+  // Uptime, performance and security monitors
+  'uptimerobot', 'pingdom', 'statuscake', 'site24x7', 'newrelicpinger', 'datadog', 'better uptime',
+  'gtmetrix', 'chrome-lighthouse', 'pagespeed', 'cloudflare-alwaysonline', 'shopify-captain-hook',
+  // HTTP libraries and generic markers
+  'curl/', 'wget/', 'python-requests', 'python-urllib', 'aiohttp', 'httpx', 'go-http-client',
+  'okhttp', 'java/', 'apache-httpclient', 'node-fetch', 'axios/', 'undici', 'libwww-perl',
+  'scrapy', 'postmanruntime', 'insomnia', 'bot/', 'crawler', 'spider',
+];
+
+// Headless browsers and automation frameworks
+const HEADLESS_USER_AGENTS = ['headlesschrome', 'phantomjs', 'puppeteer', 'playwright', 'selenium', 'webdriver', 'slimerjs'];
+
+// Well-known cloud and hosting ranges (IPv4). Not exhaustive: providers publish
+// their full lists (e.g. AWS ip-ranges.json), add them with BOT_DATACENTER_RANGES.
+export const KNOWN_DATACENTER_RANGES: Record<string, string[]> = {
+  googlebot: ['66.249.64.0/19'],
+  aws: ['3.0.0.0/9', '18.128.0.0/9', '52.0.0.0/11', '54.64.0.0/11', '54.144.0.0/12'],
+  gcp: ['34.64.0.0/10', '35.184.0.0/13', '35.192.0.0/12'],
+  azure: ['20.36.0.0/14', '20.40.0.0/13', '40.64.0.0/10', '52.224.0.0/11'],
+  digitalocean: ['104.131.0.0/16', '138.197.0.0/16', '159.203.0.0/16', '167.99.0.0/16', '206.189.0.0/16'],
+  hetzner: ['5.9.0.0/16', '78.46.0.0/15', '88.198.0.0/16', '116.202.0.0/15', '135.181.0.0/16'],
+  ovh: ['51.68.0.0/16', '51.75.0.0/16', '54.36.0.0/16', '137.74.0.0/16', '149.202.0.0/16'],
+  linode: ['45.33.0.0/17', '139.162.0.0/16', '172.104.0.0/15'],
+};
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+const EXTRA_BOT_USER_AGENTS = splitList(process.env.BOT_USER_AGENT_PATTERNS).map(pattern => pattern.toLowerCase());
+const EXTRA_DATACENTER_RANGES = splitList(process.env.BOT_DATACENTER_RANGES);
+
+// =============================================================================
+// IP RANGES
+// =============================================================================
+
+interface Ipv4Range {
+  label: string;
+  network: number;
+  mask: number;
+}
+
+function parseIpv4(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function parseIpv4Range(label: string, cidr: string): Ipv4Range | null {
+  const [address, bits = '32'] = cidr.split('/');
+  const network = parseIpv4(address);
+  const prefix = Number(bits);
+  if (network === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    return null;
+  }
+  // Unsigned 32-bit arithmetic: >>> 0 keeps the mask and the network positive
+  const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+  return { label, network: (network & mask) >>> 0, mask };
+}
+
+let datacenterRanges: Ipv4Range[] | null = null;
+
+function getDatacenterRanges(): Ipv4Range[] {
+  if (!datacenterRanges) {
+    const ranges: Ipv4Range[] = [];
+    Object.keys(KNOWN_DATACENTER_RANGES).forEach(label => {
+      for (const cidr of KNOWN_DATACENTER_RANGES[label]) {
+        const range = parseIpv4Range(label, cidr);
+        if (range) ranges.push(range);
+      }
+    });
+    for (const cidr of EXTRA_DATACENTER_RANGES) {
+      const range = parseIpv4Range('custom', cidr);
+      if (range) {
+        ranges.push(range);
+      } else {
+        console.warn(`[${new Date().toISOString()}] [TRAFFIC] ⚠️ Ignoring invalid BOT_DATACENTER_RANGES entry: ${cidr}`);
+      }
+    }
+    datacenterRanges = ranges;
+  }
+  return datacenterRanges;
+}
+
+/**
+ * Provider label of the datacenter range an IPv4 address belongs to, or null
+ */
+export function findDatacenterRange(ip: string | null | undefined): string | null {
+  // IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are checked as IPv4
+  const address = parseIpv4((ip || '').replace(/^::ffff:/i, ''));
+  if (address === null) return null;
+  for (const range of getDatacenterRanges()) {
+    if (((address & range.mask) >>> 0) === range.network) return range.label;
+  }
+  return null;
+}
+
+// =============================================================================
+// BEHAVIOUR
+// =============================================================================
+
+// Client IP -> times (ms) of the requests seen within the burst window
+const recentRequests = new Map<string, number[]>();
+let lastBurstPrune = 0;
+
+function pruneRecentRequests(now: number, windowMs: number): void {
+  if (now - lastBurstPrune < windowMs) return;
+  lastBurstPrune = now;
+  recentRequests.forEach((times, key) => {
+    if (times[times.length - 1] <= now - windowMs) recentRequests.delete(key);
+  });
+}
+
+/**
+ * Records a request for the key; returns how many fall in the burst window
+ */
+function recordRequest(key: string, now: number): number {
+  const windowMs = BOT_BURST_WINDOW_SECONDS * 1000;
+  pruneRecentRequests(now, windowMs);
+  const times = (recentRequests.get(key) || []).filter(time => time > now - windowMs);
+  times.push(now);
+  // Only the newest entries matter to decide whether the limit was exceeded
+  recentRequests.set(key, times.slice(-(BOT_BURST_MAX_REQUESTS + 1)));
+  return times.length;
+}
+
+// =============================================================================
+// CLASSIFICATION
+// =============================================================================
+
+function getBotFilterMode(tenant: TenantConfig | null | undefined): BotFilterMode {
+  return tenant?.botFilter?.mode || BOT_FILTER_MODE;
+}
+
+function findPattern(userAgent: string, patterns: string[]): string | null {
+  for (const pattern of patterns) {
+    if (userAgent.includes(pattern)) return pattern;
+  }
+  return null;
+}
+
+/**
+ * Signals of a browser request, as "<signal>" or "<signal>:<detail>"
+ */
+export function detectBotSignals(request: NextRequest, now: number = Date.now()): string[] {
+  const reasons: string[] = [];
+  const userAgent = (request.headers.get('user-agent') || '').toLowerCase();
+  const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip');
+
+  if (!userAgent) {
+    reasons.push('user_agent:missing');
+  } else {
+    const botPattern = findPattern(userAgent, KNOWN_BOT_USER_AGENTS) || findPattern(userAgent, EXTRA_BOT_USER_AGENTS);
+    if (botPattern) reasons.push(`user_agent:${botPattern}`);
+  }
+
+  const headlessPattern = findPattern(userAgent, HEADLESS_USER_AGENTS)
+    || ((request.headers.get('sec-ch-ua') || '').toLowerCase().includes('headless') ? 'sec-ch-ua' : null);
+  if (headlessPattern) reasons.push(`headless:${headlessPattern}`);
+
+  const datacenter = findDatacenterRange(clientIp);
+  if (datacenter) reasons.push(`datacenter_ip:${datacenter}`);
+
+  if (!request.headers.get('accept-language')) reasons.push('no_accept_language');
+
+  if (clientIp) {
+    const seen = recordRequest(clientIp, now);
+    if (seen > BOT_BURST_MAX_REQUESTS) reasons.push(`burst:${seen}/${BOT_BURST_WINDOW_SECONDS}s`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Applies the tenant's bot filter to a browser request. eventCount is the
+ * number of events the request carries (batches); serverToServer skips the
+ * check for events whose request does not come from the visitor (webhooks).
+ */
+export function classifyTraffic(
+  request: NextRequest,
+  tenant: TenantConfig | null | undefined,
+  eventName: string,
+  options: { eventCount?: number; serverToServer?: boolean } = {}
+): TrafficClassification {
+  const mode = getBotFilterMode(tenant);
+  if (mode === 'off' || options.serverToServer) {
+    return { rule: 'not_checked', score: 0, reasons: [] };
+  }
+
+  const reasons = detectBotSignals(request);
+  const score = reasons.reduce((total, reason) => total + SIGNAL_WEIGHTS[reason.split(':')[0] as BotSignal], 0);
+  if (score < BOT_SCORE_THRESHOLD) {
+    return { rule: 'human', score, reasons };
+  }
+
+  const rule: TrafficRule = mode === 'drop' ? 'dropped' : 'tagged';
+  const signals = reasons.map(reason => reason.split(':')[0]).join('+');
+  incrementCounter('bot_events', { tenant: tenant?.id || 'N/A', event: eventName, rule, signals }, options.eventCount || 1);
+  console.warn(`[${new Date().toISOString()}] [TRAFFIC] 🤖 ${eventName} ${rule} as bot traffic (score ${score}: ${reasons.join(', ')}). User-Agent: ${request.headers.get('user-agent') || 'N/A'}`);
+  return { rule, score, reasons };
+}
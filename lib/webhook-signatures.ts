@@ -0,0 +1,76 @@
+/**
+ * WEBHOOK SIGNATURE HELPERS
+ *
+ * Shared verification primitives for inbound platform webhooks.
+ * Uses the Web Crypto API (same as the hashing in fbevents.ts) so that
+ * signature checks are constant-time and runtime agnostic.
+ *
+ * @version 2.0.0
+ * @author Facebook Conversions API E-commerce Team
+ */
+
+export type HmacAlgorithm = 'SHA-1' | 'SHA-256';
+export type SignatureEncoding = 'base64' | 'hex';
+
+function decodeSignature(signature: string, encoding: SignatureEncoding): Uint8Array | null {
+  const trimmed = signature.trim();
+  if (encoding === 'hex') {
+    if (!/^[0-9a-f]+$/i.test(trimmed) || trimmed.length % 2 !== 0) {
+      return null;
+    }
+    return new Uint8Array(Buffer.from(trimmed, 'hex'));
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed)) {
+    return null;
+  }
+  return new Uint8Array(Buffer.from(trimmed, 'base64'));
+}
+
+/**
+ * Constant-time string comparison for shared secrets/tokens sent in the payload
+ */
+export function safeCompare(received: string | null | undefined, expected: string): boolean {
+  if (typeof received !== 'string' || !expected) {
+    return false;
+  }
+  const encoder = new TextEncoder();
+  const a = encoder.encode(received);
+  const b = encoder.encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (i < a.length ? a[i] : 0) ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Verifies an HMAC signature computed over the raw request body
+ */
+export async function verifyHmacSignature(
+  payload: string,
+  signature: string | null | undefined,
+  secret: string,
+  options: { algorithm?: HmacAlgorithm; encoding?: SignatureEncoding } = {}
+): Promise<boolean> {
+  const { algorithm = 'SHA-256', encoding = 'base64' } = options;
+
+  if (!signature || !secret) {
+    return false;
+  }
+
+  const signatureBytes = decodeSignature(signature, encoding);
+  if (!signatureBytes) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: algorithm },
+    false,
+    ['verify']
+  );
+
+  return crypto.subtle.verify('HMAC', key, signatureBytes, encoder.encode(payload));
+}
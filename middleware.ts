@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Must match TENANT_PATH_HEADER in lib/tenants.ts (not imported: middleware runs on the edge runtime)
+const TENANT_PATH_HEADER = 'x-capi-tenant';
+
+const TENANT_PATH_PATTERN = /^\/api\/t\/([^/]+)(\/.*)$/;
+
+/**
+ * Tenant path segments: /api/t/<tenantId>/track/pageview is served by
+ * /api/track/pageview with the tenant id passed in the x-capi-tenant header.
+ * The header is stripped from every other request so clients cannot set it directly.
+ */
+export function middleware(request: NextRequest) {
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(TENANT_PATH_HEADER);
+
+  const match = request.nextUrl.pathname.match(TENANT_PATH_PATTERN);
+  if (!match) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  requestHeaders.set(TENANT_PATH_HEADER, match[1]);
+  const url = request.nextUrl.clone();
+  url.pathname = `/api${match[2]}`;
+  return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
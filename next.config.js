@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // instrumentation.ts validates the configuration at startup
+    instrumentationHook: true,
+  },
+};
  
-module.exports = nextConfig; 
\ No newline at end of file
+module.exports = nextConfig;